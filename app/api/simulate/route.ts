@@ -0,0 +1,74 @@
+import { checkExperiment } from "../../lib/experiment-url";
+import { createRunBatch } from "../../lib/run-batch";
+import { reelSpinsPerSpin } from "../../lib/simulation";
+
+/**
+ * Reel spins, hands or rolls across every run of one request, counting each
+ * free spin a bonus round plays; bigger studies belong on the command line.
+ */
+const MAX_REQUEST_WORK = 1_000_000;
+/** Every run comes back with its summary, so runs are capped on their own. */
+const MAX_REQUEST_RUNS = 1000;
+/** Longest stretch of runs played before other requests get a turn. */
+const YIELD_INTERVAL_MS = 50;
+
+const badRequest = (problems: string[]) => Response.json({ problems }, { status: 400 });
+
+const yieldToEventLoop = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Plays an experiment sent as `{ settings, runCount, baseSeed, bands? }` and
+ * answers with every run's summary, the mean line and, when `bands` is true,
+ * the percentile bands. The same seed gives the same runs as the page.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest(["The body is not valid JSON."]);
+  }
+
+  const bands = typeof body === "object" && body !== null ? (body as { bands?: unknown }).bands : undefined;
+  if (bands !== undefined && typeof bands !== "boolean") {
+    return badRequest(['"bands" must be true or false.']);
+  }
+
+  const { experiment, problems } = checkExperiment(body);
+  if (!experiment) {
+    return badRequest(problems);
+  }
+  const { settings, runCount } = experiment;
+  if (runCount > MAX_REQUEST_RUNS) {
+    return badRequest([
+      `"runCount" is ${runCount.toLocaleString("en-US")}; the limit is ${MAX_REQUEST_RUNS.toLocaleString("en-US")}.`,
+    ]);
+  }
+  const work = Math.round(settings.spins * runCount * reelSpinsPerSpin(settings));
+  if (work > MAX_REQUEST_WORK) {
+    return badRequest([
+      `Spins × runs comes to ${work.toLocaleString("en-US")} with every free spin counted; the limit is ${MAX_REQUEST_WORK.toLocaleString("en-US")}.`,
+    ]);
+  }
+
+  const batch = createRunBatch({ ...experiment, withBands: bands === true, withSummaries: true });
+  let lastYield = performance.now();
+  while (!batch.isDone()) {
+    batch.runNext();
+    if (performance.now() - lastYield >= YIELD_INTERVAL_MS) {
+      await yieldToEventLoop();
+      lastYield = performance.now();
+    }
+  }
+  const result = batch.snapshot();
+
+  return Response.json({
+    experiment,
+    steps: result.steps,
+    meanLine: result.meanLine,
+    bands: result.percentileBands,
+    totalFinal: result.totalFinal,
+    bustCount: result.bustCount,
+    summaries: result.runSummaries,
+  });
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import {
+  BACCARAT_ESTIMATE_ROUNDS,
+  PAIR_HOUSE_EDGE,
+  baccaratMainBets,
+  baccaratSideBets,
+  baccaratVariantLabels,
+  mainBetHouseEdge,
+} from '../lib/baccarat';
+import type {
+  BaccaratBets,
+  BaccaratMainBet,
+  BaccaratSideBet,
+  BaccaratVariant,
+} from '../lib/baccarat';
+import type { OutcomeStats } from '../lib/outcomes';
+import { PresetPills } from './preset-pills';
+
+type BaccaratBetsPanelProps = {
+  bets: BaccaratBets;
+  variant: BaccaratVariant;
+  /** Null until the estimate has been worked out. */
+  stats: OutcomeStats | null;
+  onBetsChange: (bets: BaccaratBets) => void;
+  onVariantChange: (variant: BaccaratVariant) => void;
+};
+
+const variantOptions: BaccaratVariant[] = ['commission', 'no-commission'];
+
+const toggleStyle = (isActive: boolean) => ({
+  background: isActive ? 'var(--accent-emerald)' : 'var(--surface-bg)',
+  color: isActive ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+  borderColor: isActive ? 'var(--accent-emerald)' : 'var(--border-color)',
+  borderWidth: '1px',
+  borderStyle: 'solid',
+  opacity: isActive ? 0.84 : 1,
+});
+
+export function BaccaratBetsPanel({
+  bets,
+  variant,
+  stats,
+  onBetsChange,
+  onVariantChange,
+}: BaccaratBetsPanelProps) {
+  const standardError = stats ? stats.standardDeviation / Math.sqrt(BACCARAT_ESTIMATE_ROUNDS) : 0;
+
+  const toggleSide = (side: BaccaratSideBet) =>
+    onBetsChange({
+      ...bets,
+      sides: bets.sides.includes(side)
+        ? bets.sides.filter((entry) => entry !== side)
+        : [...bets.sides, side],
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Table</span>
+        <PresetPills
+          values={variantOptions}
+          active={variant}
+          onSelect={onVariantChange}
+          format={(value) => baccaratVariantLabels[value]}
+          accent="var(--accent-emerald)"
+          glow="rgba(16, 185, 129, 0.2)"
+        />
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Main bet</span>
+        {(Object.keys(baccaratMainBets) as BaccaratMainBet[]).map((bet) => {
+          const definition = baccaratMainBets[bet];
+          return (
+            <button
+              key={bet}
+              onClick={() => onBetsChange({ ...bets, main: bet })}
+              className="pressable flex w-full flex-col rounded-2xl px-4 py-3 text-left"
+              style={toggleStyle(bets.main === bet)}
+            >
+              <span className="text-xs font-bold uppercase tracking-wide">
+                {definition.label} · edge {(mainBetHouseEdge(bet, variant) * 100).toFixed(2)}%
+              </span>
+              <span className="mt-1 text-[11px]">
+                {bet === 'banker'
+                  ? variant === 'commission'
+                    ? `${definition.description} Pays 19:20 after commission.`
+                    : `${definition.description} Pays even money, or 1:2 on a six.`
+                  : definition.description}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Side bets</span>
+        {(Object.keys(baccaratSideBets) as BaccaratSideBet[]).map((side) => {
+          const definition = baccaratSideBets[side];
+          return (
+            <button
+              key={side}
+              onClick={() => toggleSide(side)}
+              className="pressable flex w-full flex-col rounded-2xl px-4 py-3 text-left"
+              style={toggleStyle(bets.sides.includes(side))}
+            >
+              <span className="text-xs font-bold uppercase tracking-wide">
+                {definition.label} · edge {(PAIR_HOUSE_EDGE * 100).toFixed(2)}%
+              </span>
+              <span className="mt-1 text-[11px]">{definition.description}</span>
+            </button>
+          );
+        })}
+      </div>
+      {stats ? (
+        <p className="text-xs font-mono theme-text-muted">
+          Whole coup · edge {(stats.houseEdge * 100).toFixed(2)}% ± {(standardError * 100).toFixed(2)}%
+          · σ/coup {stats.standardDeviation.toFixed(2)}× (from {(BACCARAT_ESTIMATE_ROUNDS / 1e6).toFixed(0)}M
+          dealt coups)
+        </p>
+      ) : (
+        <p className="text-xs font-mono theme-text-muted">
+          Estimating from {(BACCARAT_ESTIMATE_ROUNDS / 1e6).toFixed(0)}M dealt coups…
+        </p>
+      )}
+    </div>
+  );
+}
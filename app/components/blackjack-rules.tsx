@@ -0,0 +1,111 @@
+'use client';
+
+import { BLACKJACK_ESTIMATE_ROUNDS } from '../lib/blackjack';
+import type { BlackjackPayout, BlackjackRules } from '../lib/blackjack';
+import type { OutcomeStats } from '../lib/outcomes';
+import { PresetPills } from './preset-pills';
+
+type BlackjackRulesPanelProps = {
+  rules: BlackjackRules;
+  /** Null until the estimate has been worked out. */
+  stats: OutcomeStats | null;
+  onChange: (rules: BlackjackRules) => void;
+};
+
+type Toggle = 'on' | 'off';
+
+const deckOptions = [1, 2, 4, 6, 8];
+const penetrationOptions = [0.5, 0.65, 0.75, 0.85];
+const payoutOptions: BlackjackPayout[] = ['3:2', '6:5'];
+const toggleOptions: Toggle[] = ['on', 'off'];
+
+const accent = 'var(--accent-emerald)';
+const glow = 'rgba(16, 185, 129, 0.2)';
+
+export function BlackjackRulesPanel({ rules, stats, onChange }: BlackjackRulesPanelProps) {
+  const update = <K extends keyof BlackjackRules>(key: K, value: BlackjackRules[K]) =>
+    onChange({ ...rules, [key]: value });
+  const standardError = stats ? stats.standardDeviation / Math.sqrt(BLACKJACK_ESTIMATE_ROUNDS) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Decks</span>
+        <PresetPills
+          values={deckOptions}
+          active={rules.decks}
+          onSelect={(value) => update('decks', value)}
+          format={String}
+          accent={accent}
+          glow={glow}
+        />
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Penetration</span>
+        <PresetPills
+          values={penetrationOptions}
+          active={rules.penetration}
+          onSelect={(value) => update('penetration', value)}
+          format={(value) => `${Math.round(value * 100)}%`}
+          accent={accent}
+          glow={glow}
+        />
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Dealer soft 17</span>
+        <PresetPills
+          values={toggleOptions}
+          active={rules.dealerHitsSoft17 ? 'on' : 'off'}
+          onSelect={(value) => update('dealerHitsSoft17', value === 'on')}
+          format={(value) => (value === 'on' ? 'Hits' : 'Stands')}
+          accent={accent}
+          glow={glow}
+        />
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Blackjack pays</span>
+        <PresetPills
+          values={payoutOptions}
+          active={rules.blackjackPayout}
+          onSelect={(value) => update('blackjackPayout', value)}
+          format={String}
+          accent={accent}
+          glow={glow}
+        />
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Double after split</span>
+        <PresetPills
+          values={toggleOptions}
+          active={rules.doubleAfterSplit ? 'on' : 'off'}
+          onSelect={(value) => update('doubleAfterSplit', value === 'on')}
+          format={(value) => (value === 'on' ? 'Allowed' : 'No')}
+          accent={accent}
+          glow={glow}
+        />
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Late surrender</span>
+        <PresetPills
+          values={toggleOptions}
+          active={rules.surrender ? 'on' : 'off'}
+          onSelect={(value) => update('surrender', value === 'on')}
+          format={(value) => (value === 'on' ? 'Allowed' : 'No')}
+          accent={accent}
+          glow={glow}
+        />
+      </div>
+      {stats ? (
+        <p className="text-xs font-mono theme-text-muted">
+          Basic strategy · edge {(stats.houseEdge * 100).toFixed(2)}% ± {(standardError * 100).toFixed(2)}%
+          · σ/hand {stats.standardDeviation.toFixed(2)}× (from {(BLACKJACK_ESTIMATE_ROUNDS / 1e6).toFixed(0)}M
+          dealt rounds)
+        </p>
+      ) : (
+        <p className="text-xs font-mono theme-text-muted">
+          Estimating from {(BLACKJACK_ESTIMATE_ROUNDS / 1e6).toFixed(0)}M dealt rounds…
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  Filler,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  type ChartData,
+  type ChartDataset,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import type { ComparisonResult } from '../lib/comparison';
+import type { PercentileBands } from '../lib/simulation';
+
+ChartJS.register(CategoryScale, Filler, LineElement, LinearScale, PointElement, Tooltip);
+
+type ComparisonViewProps = {
+  result: ComparisonResult;
+  labels: string[];
+  colors: string[];
+  axisColor: string;
+  axisGrid: string;
+};
+
+const formatMoney = (value: number) =>
+  `${value >= 0 ? '+' : '−'}$${Math.abs(value).toFixed(Math.abs(value) >= 100 ? 0 : 2)}`;
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const bigint = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(bigint >> 16) & 255}, ${(bigint >> 8) & 255}, ${bigint & 255}, ${alpha})`;
+};
+
+/** A 25th–75th percentile band with the median drawn over it. */
+const bandDatasets = (
+  label: string,
+  bands: PercentileBands,
+  color: string,
+): ChartDataset<'line', number[]>[] => [
+  {
+    label: `${label} 75th`,
+    data: bands.p75,
+    borderColor: hexToRgba(color, 0.35),
+    borderWidth: 1,
+    pointRadius: 0,
+    tension: 0.2,
+    fill: false,
+  },
+  {
+    label: `${label} 25th`,
+    data: bands.p25,
+    borderColor: hexToRgba(color, 0.35),
+    backgroundColor: hexToRgba(color, 0.18),
+    borderWidth: 1,
+    pointRadius: 0,
+    tension: 0.2,
+    fill: '-1',
+  },
+  {
+    label: `${label} median`,
+    data: bands.p50,
+    borderColor: color,
+    borderWidth: 2.4,
+    pointRadius: 0,
+    tension: 0.2,
+    fill: false,
+  },
+];
+
+const chartOptions = (axisColor: string, axisGrid: string) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: { display: false },
+    tooltip: { enabled: false },
+  },
+  scales: {
+    x: {
+      grid: { display: false },
+      ticks: { display: false },
+    },
+    y: {
+      grid: { color: axisGrid },
+      ticks: {
+        color: axisColor,
+        maxTicksLimit: 6,
+        callback: (value: string | number) => formatMoney(Number(value)),
+      },
+    },
+  },
+});
+
+/**
+ * Setups played on the same seeds: their percentile bands, each one's gap to
+ * the first setup, and a table of how their final nets compare.
+ */
+export function ComparisonView({ result, labels, colors, axisColor, axisGrid }: ComparisonViewProps) {
+  const { steps, summaries, differences } = result;
+
+  const bandData = useMemo<ChartData<'line', number[], number>>(
+    () => ({
+      labels: steps,
+      datasets: summaries.flatMap((summary, index) =>
+        bandDatasets(labels[index], summary.bands, colors[index]),
+      ),
+    }),
+    [steps, summaries, labels, colors],
+  );
+
+  const differenceData = useMemo<ChartData<'line', number[], number>>(
+    () => ({
+      labels: steps,
+      datasets: [
+        {
+          label: 'Even',
+          data: steps.map(() => 0),
+          borderColor: axisColor,
+          borderDash: [6, 6],
+          borderWidth: 1,
+          pointRadius: 0,
+          fill: false,
+        },
+        ...differences.flatMap((difference, index) =>
+          bandDatasets(labels[index + 1], difference.bands, colors[index + 1]),
+        ),
+      ],
+    }),
+    [steps, differences, labels, colors, axisColor],
+  );
+
+  const options = useMemo(() => chartOptions(axisColor, axisGrid), [axisColor, axisGrid]);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap gap-x-5 gap-y-2 text-xs">
+        {labels.map((label, index) => (
+          <span key={index} className="flex items-center gap-2 font-bold theme-text">
+            <span
+              className="inline-flex h-2 w-2 rounded-full"
+              style={{ background: colors[index] }}
+              aria-hidden
+            />
+            {label}
+            {index === 0 && <span className="font-normal theme-text-muted">(baseline)</span>}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-col gap-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">
+          Net · median and 25th–75th percentile
+        </span>
+        <div className="relative h-[260px]">
+          <Line data={bandData} options={options} />
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">
+          Difference from the baseline, seed for seed
+        </span>
+        <div className="relative h-[200px]">
+          <Line data={differenceData} options={options} />
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="theme-text-muted">
+            <tr>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">Setup</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">Mean final</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">Median</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">90% range</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">P(profit)</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">Drawdown avg · worst</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">DD spins avg · longest</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">Peak spin</th>
+              <th className="py-2 pr-4 font-bold uppercase tracking-wider">Bust</th>
+              <th className="py-2 font-bold uppercase tracking-wider">Vs baseline</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono tabular-nums theme-text">
+            {summaries.map((summary, index) => {
+              const difference = index > 0 ? differences[index - 1] : null;
+              return (
+                <tr key={index} className="border-t theme-border">
+                  <td className="py-2 pr-4 font-sans font-bold" style={{ color: colors[index] }}>
+                    {labels[index]}
+                  </td>
+                  <td className="py-2 pr-4">{formatMoney(summary.finalMean)}</td>
+                  <td className="py-2 pr-4">{formatMoney(summary.finalMedian)}</td>
+                  <td className="py-2 pr-4">
+                    {formatMoney(summary.finalP5)} … {formatMoney(summary.finalP95)}
+                  </td>
+                  <td className="py-2 pr-4">{(summary.profitChance * 100).toFixed(1)}%</td>
+                  <td className="py-2 pr-4">
+                    −${summary.averageDrawdown.toFixed(2)} · −${summary.worstDrawdown.toFixed(2)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {Math.round(summary.averageDrawdownSpins)} · {summary.longestDrawdownSpins}
+                  </td>
+                  <td className="py-2 pr-4">{Math.round(summary.averagePeakSpin)}</td>
+                  <td className="py-2 pr-4">{(summary.bustChance * 100).toFixed(1)}%</td>
+                  <td className="py-2">
+                    {difference ? (
+                      <span title={`±${difference.independentError.toFixed(2)} with separate seeds`}>
+                        {formatMoney(difference.finalMean)} ± {difference.standardError.toFixed(2)} ·
+                        ahead {(difference.aheadChance * 100).toFixed(1)}%
+                      </span>
+                    ) : (
+                      <span className="theme-text-muted">—</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {differences.length > 0 && (
+        <p className="text-xs font-mono theme-text-muted">
+          Shared seeds put the standard error of each mean difference at{' '}
+          {differences.map((difference) => `±${difference.standardError.toFixed(2)}`).join(', ')},
+          against{' '}
+          {differences.map((difference) => `±${difference.independentError.toFixed(2)}`).join(', ')}{' '}
+          with separate seeds ({result.completedRuns.toLocaleString()} of{' '}
+          {result.totalRuns.toLocaleString()} runs)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import {
+  CRAPS_ESTIMATE_ROLLS,
+  crapsLineBets,
+  placeHouseEdge,
+  placeNumbers,
+} from '../lib/craps';
+import type { CrapsBets, CrapsLineBet, PlaceNumber } from '../lib/craps';
+import type { OutcomeStats } from '../lib/outcomes';
+import { PresetPills } from './preset-pills';
+
+type CrapsBetsPanelProps = {
+  bets: CrapsBets;
+  /** Null until the estimate has been worked out. */
+  stats: OutcomeStats | null;
+  onChange: (bets: CrapsBets) => void;
+};
+
+const oddsOptions = [0, 1, 2, 3, 5, 10];
+
+const toggleStyle = (isActive: boolean) => ({
+  background: isActive ? 'var(--accent-emerald)' : 'var(--surface-bg)',
+  color: isActive ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+  borderColor: isActive ? 'var(--accent-emerald)' : 'var(--border-color)',
+  borderWidth: '1px',
+  borderStyle: 'solid',
+  opacity: isActive ? 0.84 : 1,
+});
+
+const toggled = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+
+export function CrapsBetsPanel({ bets, stats, onChange }: CrapsBetsPanelProps) {
+  const betCount = bets.line.length + bets.place.length;
+  // The last working bet stays on so the table always has action.
+  const canRemove = betCount > 1;
+  const standardError = stats ? stats.standardDeviation / Math.sqrt(CRAPS_ESTIMATE_ROLLS) : 0;
+
+  const toggleLine = (bet: CrapsLineBet) => {
+    if (bets.line.includes(bet) && !canRemove) {
+      return;
+    }
+    onChange({ ...bets, line: toggled(bets.line, bet) });
+  };
+
+  const togglePlace = (number: PlaceNumber) => {
+    if (bets.place.includes(number) && !canRemove) {
+      return;
+    }
+    onChange({ ...bets, place: toggled(bets.place, number).sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {(Object.keys(crapsLineBets) as CrapsLineBet[]).map((bet) => {
+          const definition = crapsLineBets[bet];
+          const isActive = bets.line.includes(bet);
+          return (
+            <button
+              key={bet}
+              onClick={() => toggleLine(bet)}
+              className="pressable flex w-full flex-col rounded-2xl px-4 py-3 text-left"
+              style={toggleStyle(isActive)}
+            >
+              <span className="text-xs font-bold uppercase tracking-wide">
+                {definition.label} · edge {(definition.houseEdge * 100).toFixed(2)}%
+              </span>
+              <span className="mt-1 text-[11px]">{definition.description}</span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Place bets</span>
+        <div className="flex flex-wrap gap-2">
+          {placeNumbers.map((number) => (
+            <button
+              key={number}
+              onClick={() => togglePlace(number)}
+              className="pressable rounded-full px-3 py-1.5 text-xs font-bold tabular-nums"
+              style={toggleStyle(bets.place.includes(number))}
+              title={`Edge ${(placeHouseEdge(number) * 100).toFixed(2)}%`}
+            >
+              {number}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Free odds</span>
+        <PresetPills
+          values={oddsOptions}
+          active={bets.oddsMultiple}
+          onSelect={(value) => onChange({ ...bets, oddsMultiple: value })}
+          format={(value) => (value === 0 ? 'None' : `${value}×`)}
+          accent="var(--accent-emerald)"
+          glow="rgba(16, 185, 129, 0.2)"
+        />
+      </div>
+      {stats ? (
+        <p className="text-xs font-mono theme-text-muted">
+          Per roll · edge {(stats.houseEdge * 100).toFixed(2)}% ± {(standardError * 100).toFixed(2)}% of a unit
+          · σ/roll {stats.standardDeviation.toFixed(2)}× (from {(CRAPS_ESTIMATE_ROLLS / 1e6).toFixed(0)}M rolls)
+        </p>
+      ) : (
+        <p className="text-xs font-mono theme-text-muted">
+          Estimating from {(CRAPS_ESTIMATE_ROLLS / 1e6).toFixed(0)}M rolls…
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  BarController,
+  BarElement,
+  CategoryScale,
+  LineController,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  type ChartData,
+  type Plugin,
+  type TooltipItem,
+} from 'chart.js';
+import { Chart } from 'react-chartjs-2';
+import type { FinalDistribution } from '../lib/distribution';
+
+ChartJS.register(
+  BarController,
+  BarElement,
+  CategoryScale,
+  LineController,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip,
+);
+
+type FinalHistogramProps = {
+  /** Runs per final net. */
+  finalCounts: Map<number, number>;
+  distribution: FinalDistribution | null;
+  axisColor: string;
+  axisGrid: string;
+};
+
+type Marker = {
+  value: number;
+  label: string;
+  color: string;
+};
+
+type MarkerOptions = {
+  markers: Marker[];
+  low: number;
+  width: number;
+};
+
+const BIN_COUNT = 40;
+const TAIL_MASS = 0.001;
+
+const formatMoney = (value: number) =>
+  `${value >= 0 ? '+' : '−'}$${Math.abs(value).toFixed(Math.abs(value) >= 100 ? 0 : 2)}`;
+
+/** Median of a counted sample, averaging the middle pair when the count is even. */
+const medianOf = (counts: [number, number][], total: number) => {
+  const valueAt = (rank: number) => {
+    let seen = 0;
+    for (const [net, count] of counts) {
+      seen += count;
+      if (seen > rank) {
+        return net;
+      }
+    }
+    return counts[counts.length - 1]?.[0] ?? 0;
+  };
+
+  const middle = Math.floor(total / 2);
+  return total % 2 === 0 ? (valueAt(middle - 1) + valueAt(middle)) / 2 : valueAt(middle);
+};
+
+/** Draws labelled vertical lines at data values on the binned category axis. */
+const markerPlugin: Plugin<'bar' | 'line', MarkerOptions> = {
+  id: 'finalHistogramMarkers',
+  afterDatasetsDraw: (chart, _args, { markers, low, width }) => {
+    const { ctx, chartArea, scales } = chart;
+    const first = scales.x.getPixelForValue(0);
+    const step = scales.x.getPixelForValue(1) - first;
+
+    ctx.save();
+    ctx.font = '600 10px ui-monospace, monospace';
+    ctx.textAlign = 'center';
+    markers.forEach(({ value, label, color }, index) => {
+      const x = first + ((value - low) / width - 0.5) * step;
+      if (x < chartArea.left || x > chartArea.right) {
+        return;
+      }
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.setLineDash(index === 0 ? [] : [4, 4]);
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x, chartArea.top + 14);
+      ctx.lineTo(x, chartArea.bottom);
+      ctx.stroke();
+      ctx.fillText(label, x, chartArea.top + 4 + index * 11);
+    });
+    ctx.restore();
+  },
+};
+
+const plugins = [markerPlugin];
+
+const exactRange = (distribution: FinalDistribution) => {
+  let cumulative = 0;
+  let low = distribution.pmf[0]?.net ?? 0;
+  let high = distribution.pmf[distribution.pmf.length - 1]?.net ?? 0;
+
+  for (const { net, probability } of distribution.pmf) {
+    if (cumulative < TAIL_MASS) {
+      low = net;
+    }
+    cumulative += probability;
+    if (cumulative <= 1 - TAIL_MASS) {
+      high = net;
+    }
+  }
+
+  return [low, high];
+};
+
+export function FinalHistogram({ finalCounts, distribution, axisColor, axisGrid }: FinalHistogramProps) {
+  const histogram = useMemo(() => {
+    const counts = [...finalCounts].sort((a, b) => a[0] - b[0]);
+    const total = counts.reduce((sum, [, count]) => sum + count, 0);
+    let low = Math.min(0, counts[0]?.[0] ?? 0);
+    let high = Math.max(0, counts[counts.length - 1]?.[0] ?? 0);
+
+    if (distribution) {
+      const [exactLow, exactHigh] = exactRange(distribution);
+      low = Math.min(low, exactLow);
+      high = Math.max(high, exactHigh);
+    }
+
+    const width = Math.max((high - low) / BIN_COUNT, 1e-6);
+    const binFor = (value: number) =>
+      Math.max(0, Math.min(BIN_COUNT - 1, Math.floor((value - low) / width)));
+
+    const simulated = Array.from({ length: BIN_COUNT }, () => 0);
+    for (const [net, count] of counts) {
+      simulated[binFor(net)] += (count / total) * 100;
+    }
+
+    const exact = Array.from({ length: BIN_COUNT }, () => 0);
+    for (const { net, probability } of distribution?.pmf ?? []) {
+      exact[binFor(net)] += probability * 100;
+    }
+
+    const labels = simulated.map((_, index) => formatMoney(low + (index + 0.5) * width));
+    const profitable =
+      counts.filter(([net]) => net > 1e-9).reduce((sum, [, count]) => sum + count, 0) / total || 0;
+    const mean = counts.reduce((sum, [net, count]) => sum + net * count, 0) / total || 0;
+    const median = medianOf(counts, total);
+
+    return { labels, simulated, exact, profitable, mean, median, low, width, total };
+  }, [finalCounts, distribution]);
+
+  const data = useMemo<ChartData<'bar' | 'line', number[], string>>(
+    () => ({
+      labels: histogram.labels,
+      datasets: [
+        {
+          type: 'bar' as const,
+          label: 'Simulated runs',
+          data: histogram.simulated,
+          backgroundColor: 'rgba(124, 58, 237, 0.45)',
+          borderRadius: 4,
+          order: 1,
+        },
+        ...(distribution
+          ? [
+              {
+                type: 'line' as const,
+                label: 'Exact distribution',
+                data: histogram.exact,
+                borderColor: '#FACC15',
+                backgroundColor: 'rgba(250, 204, 21, 0.12)',
+                borderWidth: 2.4,
+                pointRadius: 0,
+                tension: 0.3,
+                order: 0,
+              },
+            ]
+          : []),
+      ],
+    }),
+    [histogram, distribution],
+  );
+
+  const options = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        finalHistogramMarkers: {
+          markers: [
+            { value: 0, label: 'Break even', color: axisColor },
+            { value: histogram.mean, label: 'Mean', color: '#FACC15' },
+            { value: histogram.median, label: 'Median', color: '#2CB67D' },
+          ],
+          low: histogram.low,
+          width: histogram.width,
+        },
+        tooltip: {
+          callbacks: {
+            label: (context: TooltipItem<'bar'>) =>
+              `${context.dataset.label}: ${(context.parsed.y ?? 0).toFixed(2)}%`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { color: axisColor, maxTicksLimit: 8, maxRotation: 0 },
+        },
+        y: {
+          grid: { color: axisGrid },
+          ticks: {
+            color: axisColor,
+            maxTicksLimit: 5,
+            callback: (value: string | number) => `${value}%`,
+          },
+        },
+      },
+    }),
+    [axisColor, axisGrid, histogram],
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs font-mono theme-text-muted">
+        <span className="font-sans text-sm font-bold text-emerald-400">
+          {(histogram.profitable * 100).toFixed(1)}% of {histogram.total.toLocaleString()} runs
+          ended in profit
+        </span>
+        <span>Mean {formatMoney(histogram.mean)}</span>
+        <span>Median {formatMoney(histogram.median)}</span>
+        {distribution && (
+          <>
+            <span>Exact P(profit) {(distribution.probabilityOfProfit * 100).toFixed(1)}%</span>
+            <span>Exact median {formatMoney(distribution.quantiles.p50)}</span>
+            <span>
+              90% range {formatMoney(distribution.quantiles.p5)} … {formatMoney(distribution.quantiles.p95)}
+            </span>
+            {!distribution.exact && <span>(payouts snapped to a coarser grid)</span>}
+          </>
+        )}
+      </div>
+      <div className="relative h-[260px]">
+        <Chart type="bar" data={data} options={options} plugins={plugins} />
+      </div>
+    </div>
+  );
+}
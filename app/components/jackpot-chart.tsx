@@ -0,0 +1,143 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  Filler,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  type ChartData,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { breakEvenPot, rtpAtLevel } from '../lib/jackpot';
+import type { JackpotHistory, ProgressiveJackpot } from '../lib/jackpot';
+import type { Outcome } from '../lib/outcomes';
+
+ChartJS.register(CategoryScale, Filler, LineElement, LinearScale, PointElement, Tooltip);
+
+type JackpotChartProps = {
+  history: JackpotHistory;
+  jackpot: ProgressiveJackpot;
+  top: Outcome;
+  rtpAtSeed: number;
+  betSize: number;
+  axisColor: string;
+  axisGrid: string;
+};
+
+const formatDollars = (value: number) =>
+  `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+/**
+ * The pot level across every spin of the experiment. The right axis reads the
+ * same line as RTP, which rises with the pot because only the top pay moves.
+ */
+export function JackpotChart({
+  history,
+  jackpot,
+  top,
+  rtpAtSeed,
+  betSize,
+  axisColor,
+  axisGrid,
+}: JackpotChartProps) {
+  const breakEven = breakEvenPot(rtpAtSeed, top, jackpot, betSize);
+  const rtpFor = (level: number) => rtpAtLevel(rtpAtSeed, top, jackpot, level, betSize) * 100;
+  const low = jackpot.seed;
+  const high = Math.max(...history.levels, history.level, low + 1);
+  const totalPaid = history.hits.reduce((sum, { amount }) => sum + amount, 0);
+  const largest = Math.max(0, ...history.hits.map(({ amount }) => amount));
+
+  const data = useMemo<ChartData<'line', number[], string>>(
+    () => ({
+      labels: history.spins.map((spin) => spin.toLocaleString()),
+      datasets: [
+        {
+          label: 'Pot',
+          data: history.levels,
+          borderColor: '#F59E0B',
+          backgroundColor: 'rgba(245, 158, 11, 0.12)',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0,
+          fill: 'origin',
+        },
+        ...(breakEven <= high
+          ? [
+              {
+                label: 'Break-even pot',
+                data: history.spins.map(() => breakEven),
+                borderColor: '#2CB67D',
+                borderDash: [6, 6],
+                borderWidth: 1.5,
+                pointRadius: 0,
+                tension: 0,
+                fill: false,
+              },
+            ]
+          : []),
+      ],
+    }),
+    [history, breakEven, high],
+  );
+
+  const options = useMemo(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        tooltip: { enabled: false },
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: { color: axisColor, maxTicksLimit: 6, maxRotation: 0 },
+        },
+        y: {
+          min: low,
+          max: high,
+          grid: { color: axisGrid },
+          ticks: {
+            color: axisColor,
+            maxTicksLimit: 5,
+            callback: (value: string | number) => formatDollars(Number(value)),
+          },
+        },
+        rtp: {
+          position: 'right' as const,
+          min: rtpAtLevel(rtpAtSeed, top, jackpot, low, betSize) * 100,
+          max: rtpAtLevel(rtpAtSeed, top, jackpot, high, betSize) * 100,
+          grid: { display: false },
+          ticks: {
+            color: axisColor,
+            maxTicksLimit: 5,
+            callback: (value: string | number) => `${Number(value).toFixed(1)}%`,
+          },
+        },
+      },
+    }),
+    [axisColor, axisGrid, low, high, rtpAtSeed, top, jackpot, betSize],
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs font-mono theme-text-muted">
+        <span className="font-sans text-sm font-bold text-amber-400">
+          Pot {formatDollars(history.level)} · RTP {rtpFor(history.level).toFixed(2)}%
+        </span>
+        <span>
+          Won {history.hits.length.toLocaleString()}× for {formatDollars(totalPaid)}
+        </span>
+        {history.hits.length > 0 && <span>Largest {formatDollars(largest)}</span>}
+        <span>Break-even pot {formatDollars(breakEven)}</span>
+      </div>
+      <div className="relative h-[220px]">
+        <Line data={data} options={options} />
+      </div>
+    </div>
+  );
+}
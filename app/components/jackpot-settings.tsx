@@ -0,0 +1,83 @@
+'use client';
+
+import {
+  breakEvenPot,
+  defaultJackpot,
+  jackpotContributions,
+  jackpotSeeds,
+} from '../lib/jackpot';
+import type { ProgressiveJackpot } from '../lib/jackpot';
+import type { Outcome } from '../lib/outcomes';
+import { PresetPills } from './preset-pills';
+
+type JackpotSettingsPanelProps = {
+  jackpot: ProgressiveJackpot | null;
+  /** The top fixed pay the pot replaces. */
+  top: Outcome;
+  /** RTP per spin with the pot at its seed. */
+  rtpAtSeed: number;
+  betSize: number;
+  onChange: (jackpot: ProgressiveJackpot | null) => void;
+};
+
+const contributionOptions: (number | null)[] = [null, ...jackpotContributions];
+
+export function JackpotSettingsPanel({
+  jackpot,
+  top,
+  rtpAtSeed,
+  betSize,
+  onChange,
+}: JackpotSettingsPanelProps) {
+  const odds = Math.round(1 / top.probability).toLocaleString();
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="text-xs uppercase tracking-widest theme-text-muted">Share of each bet</span>
+        <PresetPills
+          values={contributionOptions}
+          active={jackpot?.contribution ?? null}
+          onSelect={(contribution) =>
+            onChange(
+              contribution === null
+                ? null
+                : { seed: jackpot?.seed ?? defaultJackpot.seed, contribution },
+            )
+          }
+          format={(value) => (value === null ? 'Off' : `${value * 100}%`)}
+          accent="var(--accent-emerald)"
+          glow="rgba(16, 185, 129, 0.2)"
+        />
+      </div>
+      {jackpot && (
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-widest theme-text-muted">Seed</span>
+          <PresetPills
+            values={jackpotSeeds}
+            active={jackpot.seed}
+            onSelect={(seed) => onChange({ ...jackpot, seed })}
+            format={(value) => `$${value.toLocaleString()}`}
+            accent="var(--accent-emerald)"
+            glow="rgba(16, 185, 129, 0.2)"
+          />
+        </div>
+      )}
+      {jackpot ? (
+        <p className="text-xs font-mono theme-text-muted">
+          Replaces the ×{top.multiplier} top pay (1 in {odds}) · RTP {(rtpAtSeed * 100).toFixed(2)}% at
+          the seed, 100% once the pot reaches $
+          {breakEvenPot(rtpAtSeed, top, jackpot, betSize).toLocaleString(undefined, {
+            maximumFractionDigits: 0,
+          })}{' '}
+          · {((rtpAtSeed + jackpot.contribution) * 100).toFixed(2)}% in the long run when only these
+          runs feed it
+        </p>
+      ) : (
+        <p className="text-xs font-mono theme-text-muted">
+          The top pay stays fixed at ×{top.multiplier} (1 in {odds}).
+        </p>
+      )}
+    </div>
+  );
+}
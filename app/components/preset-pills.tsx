@@ -0,0 +1,45 @@
+'use client';
+
+type PresetPillsProps<T> = {
+  values: T[];
+  active: T;
+  onSelect: (value: T) => void;
+  format: (value: T) => string;
+  accent?: string;
+  glow?: string;
+};
+
+export function PresetPills<T extends string | number | null>({
+  values,
+  active,
+  onSelect,
+  format,
+  accent = 'var(--accent-violet)',
+  glow = 'rgba(124, 58, 237, 0.2)',
+}: PresetPillsProps<T>) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {values.map((value) => {
+        const isActive = active === value;
+        return (
+          <button
+            key={String(value)}
+            onClick={() => onSelect(value)}
+            className="pressable rounded-full border px-3 py-1.5 text-xs font-bold uppercase tracking-wider transition-transform duration-150 hover:-translate-y-0.5"
+            style={{
+              background: isActive ? accent : 'var(--surface-bg)',
+              color: isActive ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+              boxShadow: isActive ? `0 12px 28px ${glow}` : 'none',
+              opacity: isActive ? 0.84 : 1,
+              borderColor: isActive ? accent : 'var(--border-color)',
+              borderWidth: '1px',
+              borderStyle: 'solid',
+            }}
+          >
+            {format(value)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
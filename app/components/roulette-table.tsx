@@ -0,0 +1,214 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  layoutStats,
+  layoutUnits,
+  outsideBets,
+  pocketColor,
+  pocketLabel,
+  presetLayout,
+  rouletteBets,
+  wheelFor,
+} from '../lib/roulette';
+import type { RouletteChip, RouletteVariant } from '../lib/roulette';
+
+type PlacementMode = 'straight' | 'split' | 'street';
+
+type RouletteTableProps = {
+  layout: RouletteChip[];
+  variant: RouletteVariant;
+  betSize: number;
+  onChange: (layout: RouletteChip[]) => void;
+};
+
+const placementModes: { mode: PlacementMode; label: string }[] = [
+  { mode: 'straight', label: 'Straight' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'street', label: 'Street' },
+];
+
+const cellColors = {
+  red: 'rgba(225, 29, 72, 0.85)',
+  black: 'rgba(31, 41, 55, 0.9)',
+  green: 'rgba(5, 150, 105, 0.85)',
+};
+
+const tableRows = Array.from({ length: 12 }, (_, row) => [
+  row * 3 + 1,
+  row * 3 + 2,
+  row * 3 + 3,
+]);
+
+const sameNumbers = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+const chipFor = (mode: PlacementMode, pocket: number): Omit<RouletteChip, 'units'> => {
+  if (pocket === 0 || pocket > 36 || mode === 'straight') {
+    return { bet: 'single-number', numbers: [pocket] };
+  }
+
+  if (mode === 'split') {
+    const numbers = pocket <= 33 ? [pocket, pocket + 3] : [pocket - 3, pocket];
+    return { bet: 'split', numbers };
+  }
+
+  const first = Math.floor((pocket - 1) / 3) * 3 + 1;
+  return { bet: 'street', numbers: [first, first + 1, first + 2] };
+};
+
+const addChip = (layout: RouletteChip[], chip: Omit<RouletteChip, 'units'>) => {
+  const index = layout.findIndex(
+    (existing) => existing.bet === chip.bet && sameNumbers(existing.numbers, chip.numbers),
+  );
+
+  if (index === -1) {
+    return [...layout, { ...chip, units: 1 }];
+  }
+
+  return layout.map((existing, position) =>
+    position === index ? { ...existing, units: existing.units + 1 } : existing,
+  );
+};
+
+const describeChip = (chip: RouletteChip) => {
+  const outside = outsideBets.find(
+    (entry) => entry.chip.bet === chip.bet && sameNumbers(entry.chip.numbers, chip.numbers),
+  );
+  if (outside) {
+    return outside.label;
+  }
+  return `${rouletteBets[chip.bet].name} ${chip.numbers.map(pocketLabel).join('/')}`;
+};
+
+export function RouletteTable({ layout, variant, betSize, onChange }: RouletteTableProps) {
+  const [mode, setMode] = useState<PlacementMode>('straight');
+  const hasDoubleZero = wheelFor(variant).length > 37;
+  const totalStake = layoutUnits(layout) * betSize;
+
+  const stats = useMemo(() => layoutStats(layout, variant), [layout, variant]);
+
+  const straightUnits = useMemo(() => {
+    const units = new Map<number, number>();
+    for (const chip of layout) {
+      if (chip.bet === 'single-number') {
+        units.set(chip.numbers[0], (units.get(chip.numbers[0]) ?? 0) + chip.units);
+      }
+    }
+    return units;
+  }, [layout]);
+
+  const covered = useMemo(
+    () => new Set(layout.flatMap((chip) => chip.numbers)),
+    [layout],
+  );
+
+  const place = (pocket: number) => onChange(addChip(layout, chipFor(mode, pocket)));
+
+  const renderCell = (pocket: number) => {
+    const units = straightUnits.get(pocket);
+    return (
+      <button
+        key={pocket}
+        onClick={() => place(pocket)}
+        className="pressable relative flex h-7 items-center justify-center rounded-md text-[11px] font-bold tabular-nums text-white"
+        style={{
+          background: cellColors[pocketColor(pocket)],
+          outline: covered.has(pocket) ? '2px solid rgba(250, 204, 21, 0.8)' : 'none',
+          outlineOffset: '-2px',
+        }}
+      >
+        {pocketLabel(pocket)}
+        {units !== undefined && (
+          <span className="absolute -right-1 -top-1 inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-yellow-400 px-1 text-[9px] text-black">
+            {units}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-2">
+        {placementModes.map((entry) => {
+          const isActive = entry.mode === mode;
+          return (
+            <button
+              key={entry.mode}
+              onClick={() => setMode(entry.mode)}
+              className="pressable rounded-full border px-3 py-1.5 text-xs font-bold uppercase tracking-wider"
+              style={{
+                background: isActive ? 'var(--accent-emerald)' : 'var(--surface-bg)',
+                color: isActive ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+                borderColor: isActive ? 'var(--accent-emerald)' : 'var(--border-color)',
+                borderWidth: '1px',
+                borderStyle: 'solid',
+              }}
+            >
+              {entry.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        <div className={`col-span-3 grid gap-1 ${hasDoubleZero ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {renderCell(0)}
+          {hasDoubleZero && renderCell(37)}
+        </div>
+        {tableRows.map((row) => row.map((pocket) => renderCell(pocket)))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {outsideBets.map((entry) => (
+          <button
+            key={entry.label}
+            onClick={() => onChange(addChip(layout, entry.chip))}
+            className="pressable rounded-md border px-2 py-1.5 text-[11px] font-bold uppercase tracking-wide theme-border"
+            style={{ background: 'var(--surface-bg)', color: 'var(--text-muted)' }}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {layout.map((chip, index) => (
+          <div
+            key={`${chip.bet}-${chip.numbers.join('-')}`}
+            className="flex items-center justify-between rounded-xl border px-3 py-2 text-xs theme-border"
+            style={{ background: 'var(--surface-bg)' }}
+          >
+            <span className="font-bold theme-text">{describeChip(chip)}</span>
+            <span className="flex items-center gap-3 theme-text-muted tabular-nums">
+              ${(chip.units * betSize).toFixed(2)}
+              <button
+                onClick={() => onChange(layout.filter((_, position) => position !== index))}
+                disabled={layout.length === 1}
+                className="pressable font-bold disabled:opacity-30"
+                aria-label={`Remove ${describeChip(chip)}`}
+              >
+                ×
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs theme-text-muted">
+        <span className="tabular-nums">
+          Stake ${totalStake.toFixed(2)} · EV {stats.expectedValue >= 0 ? '+' : '−'}$
+          {Math.abs(stats.expectedValue * totalStake).toFixed(3)} · σ $
+          {(Math.sqrt(stats.variance) * totalStake).toFixed(2)}
+        </span>
+        <button
+          onClick={() => onChange(presetLayout('single-number'))}
+          className="pressable font-bold uppercase tracking-wider"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
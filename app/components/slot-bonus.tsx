@@ -0,0 +1,67 @@
+'use client';
+
+import { analyzeBonus } from '../lib/reels';
+import type { ReelMachine } from '../lib/reels';
+import { slotBonusModeLabels } from '../lib/simulation';
+import type { SlotBonusMode } from '../lib/simulation';
+import { PresetPills } from './preset-pills';
+
+type SlotBonusPanelProps = {
+  /** A machine with a bonus feature. */
+  machine: ReelMachine;
+  mode: SlotBonusMode;
+  onChange: (mode: SlotBonusMode) => void;
+};
+
+const modeOptions: SlotBonusMode[] = ['off', 'triggered', 'bought'];
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export function SlotBonusPanel({ machine, mode, onChange }: SlotBonusPanelProps) {
+  const bonus = machine.bonus!;
+  const stats = analyzeBonus(machine)!;
+
+  return (
+    <div className="space-y-4">
+      <PresetPills
+        values={modeOptions}
+        active={mode}
+        onSelect={onChange}
+        format={(value) => slotBonusModeLabels[value]}
+        accent="var(--accent-emerald)"
+        glow="rgba(16, 185, 129, 0.2)"
+      />
+      <p className="text-xs theme-text-muted">
+        {bonus.triggerScatters} scatters award {bonus.freeSpins} free spins with every win ×
+        {bonus.multiplier}. Landing them again adds {bonus.retriggerSpins} more. Buying in costs{' '}
+        {bonus.buyCost}× the bet.
+      </p>
+      <div className="rounded-2xl border px-4 py-3 text-xs font-mono theme-border">
+        <div className="flex items-center justify-between py-0.5">
+          <span className="theme-text-muted">Base game</span>
+          <span className="tabular-nums theme-text">{percent(stats.baseRtp)}</span>
+        </div>
+        <div className="flex items-center justify-between py-0.5">
+          <span className="theme-text-muted">
+            Free spins · 1 in {Math.round(1 / stats.triggerChance)}
+          </span>
+          <span className="tabular-nums theme-text">+{percent(stats.bonusRtp)}</span>
+        </div>
+        <div className="flex items-center justify-between py-0.5">
+          <span className="theme-text-muted">With free spins</span>
+          <span className="tabular-nums font-bold theme-text">
+            {percent(stats.baseRtp + stats.bonusRtp)}
+          </span>
+        </div>
+        <div className="flex items-center justify-between py-0.5">
+          <span className="theme-text-muted">Bought rounds</span>
+          <span className="tabular-nums font-bold theme-text">{percent(stats.buyRtp)}</span>
+        </div>
+      </div>
+      <p className="text-xs font-mono theme-text-muted">
+        A round lasts {stats.expectedSpins.toFixed(2)} spins and pays {stats.roundValue.toFixed(2)}×
+        the bet on average (exact, retriggers included)
+      </p>
+    </div>
+  );
+}
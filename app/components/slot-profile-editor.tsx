@@ -0,0 +1,161 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { createProfileId } from '../lib/custom-profiles';
+import { outcomeStats, validateOutcomes } from '../lib/outcomes';
+import type { CustomSlotProfile } from '../lib/simulation';
+
+type DraftRow = {
+  probability: string;
+  multiplier: string;
+};
+
+type SlotProfileEditorProps = {
+  initial: CustomSlotProfile | null;
+  onSave: (profile: CustomSlotProfile) => void;
+  onCancel: () => void;
+};
+
+const blankDraft: DraftRow[] = [
+  { probability: '0.6', multiplier: '0' },
+  { probability: '0.3', multiplier: '2' },
+  { probability: '0.1', multiplier: '3' },
+];
+
+const inputClass =
+  'w-full rounded-lg border px-2 py-1.5 text-xs tabular-nums theme-border theme-text focus:outline-none';
+
+export function SlotProfileEditor({ initial, onSave, onCancel }: SlotProfileEditorProps) {
+  const [name, setName] = useState(initial?.name ?? 'My machine');
+  const [rows, setRows] = useState<DraftRow[]>(
+    initial
+      ? initial.outcomes.map((outcome) => ({
+          probability: String(outcome.probability),
+          multiplier: String(outcome.multiplier),
+        }))
+      : blankDraft,
+  );
+
+  const outcomes = useMemo(
+    () =>
+      rows.map((row) => ({
+        probability: row.probability.trim() === '' ? NaN : Number(row.probability),
+        multiplier: row.multiplier.trim() === '' ? NaN : Number(row.multiplier),
+      })),
+    [rows],
+  );
+  const errors = useMemo(() => {
+    const tableErrors = validateOutcomes(outcomes);
+    return name.trim() === '' ? ['Give the profile a name.', ...tableErrors] : tableErrors;
+  }, [name, outcomes]);
+  const stats = errors.length === 0 ? outcomeStats(outcomes) : null;
+
+  const updateRow = (index: number, field: keyof DraftRow, value: string) => {
+    setRows((prev) =>
+      prev.map((row, position) => (position === index ? { ...row, [field]: value } : row)),
+    );
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) {
+      return;
+    }
+    onSave({
+      id: initial?.id ?? createProfileId(),
+      name: name.trim(),
+      outcomes: [...outcomes].sort((a, b) => a.multiplier - b.multiplier),
+    });
+  };
+
+  return (
+    <div
+      className="flex flex-col gap-4 rounded-2xl border px-5 py-4 theme-border"
+      style={{ background: 'var(--surface-bg)' }}
+    >
+      <input
+        className={inputClass}
+        style={{ background: 'var(--surface-alt)' }}
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        aria-label="Profile name"
+      />
+
+      <div className="flex flex-col gap-2">
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-[11px] uppercase tracking-widest theme-text-muted">
+          <span>Probability</span>
+          <span>Pays ×</span>
+          <span className="w-4" />
+        </div>
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] items-center gap-2">
+            <input
+              className={inputClass}
+              style={{ background: 'var(--surface-alt)' }}
+              inputMode="decimal"
+              value={row.probability}
+              onChange={(event) => updateRow(index, 'probability', event.target.value)}
+              aria-label={`Row ${index + 1} probability`}
+            />
+            <input
+              className={inputClass}
+              style={{ background: 'var(--surface-alt)' }}
+              inputMode="decimal"
+              value={row.multiplier}
+              onChange={(event) => updateRow(index, 'multiplier', event.target.value)}
+              aria-label={`Row ${index + 1} multiplier`}
+            />
+            <button
+              onClick={() => setRows((prev) => prev.filter((_, position) => position !== index))}
+              className="pressable w-4 text-xs font-bold theme-text-muted"
+              aria-label={`Remove row ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setRows((prev) => [...prev, { probability: '0', multiplier: '1' }])}
+          className="pressable self-start text-xs font-bold uppercase tracking-wider theme-text-muted"
+        >
+          + Add outcome
+        </button>
+      </div>
+
+      {stats ? (
+        <div className="grid grid-cols-2 gap-2 text-xs font-mono theme-text-muted">
+          <span>RTP {(stats.rtp * 100).toFixed(2)}%</span>
+          <span>Edge {(stats.houseEdge * 100).toFixed(2)}%</span>
+          <span>Hit rate {(stats.hitRate * 100).toFixed(1)}%</span>
+          <span>σ/spin {stats.standardDeviation.toFixed(3)}×</span>
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-1 text-xs text-rose-400">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleSave}
+          disabled={errors.length > 0}
+          className="pressable rounded-2xl px-4 py-2.5 text-xs font-bold uppercase tracking-wider disabled:opacity-40"
+          style={{
+            background: 'linear-gradient(135deg, var(--accent-violet), rgba(124, 58, 237, 0.75))',
+            color: '#ffffff',
+          }}
+        >
+          Save profile
+        </button>
+        <button
+          onClick={onCancel}
+          className="pressable rounded-2xl border px-4 py-2.5 text-xs font-bold uppercase tracking-wider theme-border"
+          style={{ background: 'var(--surface-bg)', color: 'var(--text-muted)' }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
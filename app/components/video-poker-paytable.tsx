@@ -0,0 +1,75 @@
+'use client';
+
+import { VIDEO_POKER_ESTIMATE_HANDS, handRankLabels, videoPokerPaytables } from '../lib/video-poker';
+import type { VideoPokerPaytable } from '../lib/video-poker';
+import type { OutcomeStats } from '../lib/outcomes';
+
+type VideoPokerPaytablePanelProps = {
+  paytable: VideoPokerPaytable;
+  /** Null until the estimate has been worked out. */
+  stats: OutcomeStats | null;
+  onChange: (paytable: VideoPokerPaytable) => void;
+};
+
+export function VideoPokerPaytablePanel({ paytable, stats, onChange }: VideoPokerPaytablePanelProps) {
+  const selected = videoPokerPaytables[paytable];
+  const standardError = stats ? stats.standardDeviation / Math.sqrt(VIDEO_POKER_ESTIMATE_HANDS) : 0;
+  // Pays that differ from the best paytable of the same game are the "tweak".
+  const reference = Object.values(videoPokerPaytables).find((table) => table.game === selected.game);
+  const referencePays = new Map(reference?.pays);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {(Object.keys(videoPokerPaytables) as VideoPokerPaytable[]).map((key) => {
+          const table = videoPokerPaytables[key];
+          const isActive = key === paytable;
+          return (
+            <button
+              key={key}
+              onClick={() => onChange(key)}
+              className="pressable flex w-full items-center justify-between rounded-2xl px-4 py-3 text-left"
+              style={{
+                background: isActive ? 'var(--accent-emerald)' : 'var(--surface-bg)',
+                color: isActive ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+                borderColor: isActive ? 'var(--accent-emerald)' : 'var(--border-color)',
+                borderWidth: '1px',
+                borderStyle: 'solid',
+                opacity: isActive ? 0.84 : 1,
+              }}
+            >
+              <span className="text-xs font-bold uppercase tracking-wide">{table.label}</span>
+              <span className="text-xs font-mono tabular-nums" title="Published perfect-play return">
+                {(table.publishedOptimalReturn * 100).toFixed(2)}%
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="rounded-2xl border px-4 py-3 text-xs theme-border">
+        {selected.pays.map(([hand, pays]) => (
+          <div key={hand} className="flex items-center justify-between py-0.5">
+            <span className="theme-text-muted">{handRankLabels[hand]}</span>
+            <span
+              className={`font-mono tabular-nums ${referencePays.get(hand) === pays ? 'theme-text' : 'font-bold text-rose-400'}`}
+            >
+              {pays}
+            </span>
+          </div>
+        ))}
+      </div>
+      {stats ? (
+        <p className="text-xs font-mono theme-text-muted">
+          Published perfect-play return {(selected.publishedOptimalReturn * 100).toFixed(4)}% · the
+          hold chart played here returns {(stats.rtp * 100).toFixed(2)}% ± {(standardError * 100).toFixed(2)}% · σ/hand{' '}
+          {stats.standardDeviation.toFixed(2)}× (from {(VIDEO_POKER_ESTIMATE_HANDS / 1e6).toFixed(0)}M dealt
+          hands)
+        </p>
+      ) : (
+        <p className="text-xs font-mono theme-text-muted">
+          Estimating from {(VIDEO_POKER_ESTIMATE_HANDS / 1e6).toFixed(0)}M dealt hands…
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import type { PercentileBands } from "./simulation";
+
+export interface RunningStats {
+  count: number;
+  mean: number;
+  variance: number;
+  min: number;
+  max: number;
+}
+
+/** Up to this many distinct values a sketch counts them and answers exactly. */
+const EXACT_DISTINCT_LIMIT = 1000;
+const BAND_PROBABILITIES = [0.05, 0.25, 0.5, 0.75, 0.95];
+
+/** Welford's online mean and variance, plus the extremes seen. */
+export const createRunningStats = () => {
+  let count = 0;
+  let mean = 0;
+  let squares = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  const add = (value: number) => {
+    count += 1;
+    const delta = value - mean;
+    mean += delta / count;
+    squares += delta * (value - mean);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  };
+
+  const snapshot = (): RunningStats => ({
+    count,
+    mean,
+    variance: count > 0 ? squares / count : 0,
+    min: count > 0 ? min : 0,
+    max: count > 0 ? max : 0,
+  });
+
+  return { add, snapshot };
+};
+
+type ValueAtRank = (rank: number) => number;
+
+/** Looks up ranks in value counts sorted by value. */
+const rankLookup = (counts: Map<number, number>): ValueAtRank => {
+  const values = [...counts.keys()].sort((a, b) => a - b);
+  const ends: number[] = [];
+  let seen = 0;
+  for (const value of values) {
+    seen += counts.get(value)!;
+    ends.push(seen);
+  }
+
+  return (rank) => {
+    let low = 0;
+    let high = values.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (ends[middle] > rank) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return values[low];
+  };
+};
+
+const interpolatedQuantile = (valueAt: ValueAtRank, total: number, probability: number) => {
+  const position = (total - 1) * probability;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return valueAt(lower) + (valueAt(upper) - valueAt(lower)) * (position - lower);
+};
+
+/**
+ * Jain and Chlamtac's P² estimator: five markers whose heights track a
+ * quantile, nudged by parabolic interpolation as values arrive.
+ */
+const createP2Markers = (probability: number, valueAt: ValueAtRank, total: number) => {
+  const increments = [0, probability / 2, probability, (1 + probability) / 2, 1];
+  const desired = increments.map((increment) => (total - 1) * increment);
+  const positions = desired.map(Math.round);
+  const heights = positions.map(valueAt);
+
+  const parabolic = (i: number, d: number) =>
+    heights[i] +
+    (d / (positions[i + 1] - positions[i - 1])) *
+      ((positions[i] - positions[i - 1] + d) *
+        ((heights[i + 1] - heights[i]) / (positions[i + 1] - positions[i])) +
+        (positions[i + 1] - positions[i] - d) *
+          ((heights[i] - heights[i - 1]) / (positions[i] - positions[i - 1])));
+
+  const add = (value: number) => {
+    let cell: number;
+    if (value < heights[0]) {
+      heights[0] = value;
+      cell = 0;
+    } else if (value >= heights[4]) {
+      heights[4] = value;
+      cell = 3;
+    } else {
+      cell = 0;
+      while (value >= heights[cell + 1]) {
+        cell += 1;
+      }
+    }
+
+    for (let i = cell + 1; i < 5; i++) {
+      positions[i] += 1;
+    }
+    for (let i = 0; i < 5; i++) {
+      desired[i] += increments[i];
+    }
+
+    for (let i = 1; i < 4; i++) {
+      const offset = desired[i] - positions[i];
+      if (
+        (offset >= 1 && positions[i + 1] - positions[i] > 1) ||
+        (offset <= -1 && positions[i - 1] - positions[i] < -1)
+      ) {
+        const d = Math.sign(offset);
+        const candidate = parabolic(i, d);
+        heights[i] =
+          heights[i - 1] < candidate && candidate < heights[i + 1]
+            ? candidate
+            : heights[i] + (d * (heights[i + d] - heights[i])) / (positions[i + d] - positions[i]);
+        positions[i] += d;
+      }
+    }
+  };
+
+  return { add, value: () => heights[2] };
+};
+
+/**
+ * Tracks several quantiles in bounded memory. Exact while it has seen at most
+ * EXACT_DISTINCT_LIMIT distinct values, then a P² estimate seeded from them.
+ */
+export const createQuantileSketch = (probabilities: number[]) => {
+  let counts: Map<number, number> | null = new Map();
+  let total = 0;
+  let markers: ReturnType<typeof createP2Markers>[] = [];
+
+  const add = (value: number) => {
+    total += 1;
+    if (counts === null) {
+      markers.forEach((marker) => marker.add(value));
+      return;
+    }
+
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+    if (counts.size > EXACT_DISTINCT_LIMIT) {
+      const valueAt = rankLookup(counts);
+      markers = probabilities.map((probability) => createP2Markers(probability, valueAt, total));
+      counts = null;
+    }
+  };
+
+  const quantiles = () => {
+    if (counts === null) {
+      return markers.map((marker) => marker.value());
+    }
+    if (total === 0) {
+      return probabilities.map(() => 0);
+    }
+
+    const valueAt = rankLookup(counts);
+    return probabilities.map((probability) => interpolatedQuantile(valueAt, total, probability));
+  };
+
+  return { add, quantiles };
+};
+
+interface Bucket {
+  count: number;
+  total: number;
+}
+
+/**
+ * Counts values in bounded memory. Exact to the millionth while it has seen at
+ * most EXACT_DISTINCT_LIMIT distinct values, then in equal-width buckets that
+ * double whenever there are too many. Zero keeps a bucket of its own, so no
+ * bucket mixes gains with losses, and each reports the mean of what fell in it.
+ */
+export const createBucketedCounts = () => {
+  let buckets = new Map<number, Bucket>();
+  let width = 0;
+
+  const keyFor = (value: number) => {
+    if (width === 0) {
+      return Math.round(value * 1e6) / 1e6;
+    }
+    return value > 1e-9 ? Math.ceil(value / width) : Math.floor(value / width);
+  };
+
+  const place = (target: Map<number, Bucket>, value: number, count: number, total: number) => {
+    const key = keyFor(value);
+    const bucket = target.get(key);
+    if (bucket) {
+      bucket.count += count;
+      bucket.total += total;
+    } else {
+      target.set(key, { count, total });
+    }
+  };
+
+  const coarsen = () => {
+    if (width === 0) {
+      const means = [...buckets.values()].map(({ count, total }) => total / count);
+      width = (Math.max(...means) - Math.min(...means)) / (EXACT_DISTINCT_LIMIT / 4);
+    } else {
+      width *= 2;
+    }
+    const merged = new Map<number, Bucket>();
+    for (const { count, total } of buckets.values()) {
+      place(merged, total / count, count, total);
+    }
+    buckets = merged;
+  };
+
+  const add = (value: number) => {
+    place(buckets, value, 1, value);
+    if (buckets.size > EXACT_DISTINCT_LIMIT) {
+      coarsen();
+    }
+  };
+
+  const counts = () =>
+    new Map([...buckets.values()].map(({ count, total }) => [total / count, count]));
+
+  return { add, counts };
+};
+
+export interface CheckpointSummary {
+  mean: number[];
+  standardDeviation: number[];
+  min: number[];
+  max: number[];
+  bands: PercentileBands | null;
+}
+
+/**
+ * Folds runs, sampled at fixed checkpoints, into per-checkpoint statistics.
+ * Runs that ended early hold their final net for the remaining checkpoints.
+ */
+export const createCheckpointAggregate = (checkpoints: number, withBands: boolean) => {
+  const stats = Array.from({ length: checkpoints }, createRunningStats);
+  const sketches = withBands
+    ? Array.from({ length: checkpoints }, () => createQuantileSketch(BAND_PROBABILITIES))
+    : null;
+
+  const addRun = (sampled: number[]) => {
+    for (let column = 0; column < checkpoints; column++) {
+      const value = sampled[Math.min(column, sampled.length - 1)];
+      stats[column].add(value);
+      sketches?.[column].add(value);
+    }
+  };
+
+  const snapshot = (): CheckpointSummary => {
+    const columns = stats.map((entry) => entry.snapshot());
+    let bands: PercentileBands | null = null;
+
+    if (sketches) {
+      bands = { p5: [], p25: [], p50: [], p75: [], p95: [] };
+      for (const sketch of sketches) {
+        const [p5, p25, p50, p75, p95] = sketch.quantiles();
+        bands.p5.push(p5);
+        bands.p25.push(p25);
+        bands.p50.push(p50);
+        bands.p75.push(p75);
+        bands.p95.push(p95);
+      }
+    }
+
+    return {
+      mean: columns.map(({ mean }) => mean),
+      standardDeviation: columns.map(({ variance }) => Math.sqrt(variance)),
+      min: columns.map(({ min }) => min),
+      max: columns.map(({ max }) => max),
+      bands,
+    };
+  };
+
+  return { addRun, snapshot };
+};
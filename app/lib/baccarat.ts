@@ -0,0 +1,221 @@
+import type { Outcome } from "./outcomes";
+
+export type BaccaratMainBet = "banker" | "player" | "tie";
+
+/** Standard tables take 5% of banker wins; no-commission tables pay 1:2 on a banker six. */
+export type BaccaratVariant = "commission" | "no-commission";
+
+export type BaccaratSideBet = "player-pair" | "banker-pair";
+
+/** One stake unit on the main bet, plus one on each side bet. */
+export interface BaccaratBets {
+  main: BaccaratMainBet;
+  sides: BaccaratSideBet[];
+}
+
+interface BaccaratBetDefinition {
+  label: string;
+  description: string;
+}
+
+/** Cards are stored by rank, 1 (ace) to 13 (king), so pairs can match on rank. */
+type Card = number;
+
+export const baccaratMainBets: Record<BaccaratMainBet, BaccaratBetDefinition> = {
+  banker: {
+    label: "Banker",
+    description: "Wins when the banker hand finishes closer to 9.",
+  },
+  player: {
+    label: "Player",
+    description: "Wins when the player hand finishes closer to 9; pays even money.",
+  },
+  tie: {
+    label: "Tie",
+    description: "Both hands finish level; pays 8:1.",
+  },
+};
+
+export const baccaratSideBets: Record<BaccaratSideBet, BaccaratBetDefinition> = {
+  "player-pair": {
+    label: "Player pair",
+    description: "The player's first two cards share a rank; pays 11:1.",
+  },
+  "banker-pair": {
+    label: "Banker pair",
+    description: "The banker's first two cards share a rank; pays 11:1.",
+  },
+};
+
+export const baccaratVariantLabels: Record<BaccaratVariant, string> = {
+  commission: "5% commission",
+  "no-commission": "No commission",
+};
+
+/** Published 8-deck house edges, as a share of the bet. */
+const bankerHouseEdges: Record<BaccaratVariant, number> = {
+  commission: 0.010579,
+  "no-commission": 0.014581,
+};
+
+export const PAIR_HOUSE_EDGE = 0.103614;
+
+export const mainBetHouseEdge = (bet: BaccaratMainBet, variant: BaccaratVariant) =>
+  bet === "banker" ? bankerHouseEdges[variant] : bet === "player" ? 0.012351 : 0.143596;
+
+export const defaultBaccaratBets: BaccaratBets = {
+  main: "banker",
+  sides: [],
+};
+
+const DECKS = 8;
+/** The cut card sits this many cards from the back of the shoe. */
+const CUT_CARD_FROM_END = 14;
+const TIE_PAYS = 8;
+const PAIR_PAYS = 11;
+export const BACCARAT_ESTIMATE_ROUNDS = 2_000_000;
+
+export const betUnits = (bets: BaccaratBets) => 1 + bets.sides.length;
+
+const cardPoints = (card: Card) => (card >= 10 ? 0 : card);
+
+const handPoints = (cards: Card[]) =>
+  cards.reduce((sum, card) => sum + cardPoints(card), 0) % 10;
+
+/** Whether the banker draws, given its total and the player's third card. */
+const bankerDraws = (banker: number, playerThird: Card | null) => {
+  if (playerThird === null) {
+    return banker <= 5;
+  }
+  const third = cardPoints(playerThird);
+  switch (banker) {
+    case 0:
+    case 1:
+    case 2:
+      return true;
+    case 3:
+      return third !== 8;
+    case 4:
+      return third >= 2 && third <= 7;
+    case 5:
+      return third >= 4 && third <= 7;
+    case 6:
+      return third === 6 || third === 7;
+    default:
+      return false;
+  }
+};
+
+const createShoe = (rand: () => number) => {
+  const cards: Card[] = [];
+  for (let deck = 0; deck < DECKS; deck++) {
+    for (let rank = 1; rank <= 13; rank++) {
+      for (let suit = 0; suit < 4; suit++) {
+        cards.push(rank);
+      }
+    }
+  }
+
+  const cutCard = cards.length - CUT_CARD_FROM_END;
+  let position = cards.length;
+
+  const shuffle = () => {
+    for (let i = cards.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [cards[i], cards[j]] = [cards[j], cards[i]];
+    }
+    position = 0;
+  };
+
+  return {
+    /** Reshuffles at the start of a coup once the cut card has come out. */
+    prepareRound: () => {
+      if (position >= cutCard) {
+        shuffle();
+      }
+    },
+    draw: (): Card => cards[position++],
+  };
+};
+
+/**
+ * A punto banco table with its own 8-deck shoe. Both hands are drawn by the
+ * fixed tableau, so the player only chooses what to bet on.
+ */
+export const createBaccaratTable = (
+  bets: BaccaratBets,
+  variant: BaccaratVariant,
+  rand: () => number,
+) => {
+  const shoe = createShoe(rand);
+  const units = betUnits(bets);
+
+  /** Deals one coup with `stake` split evenly across the bets; returns what comes back. */
+  const playRound = (stake: number): number => {
+    shoe.prepareRound();
+    const player = [shoe.draw(), shoe.draw()];
+    const banker = [shoe.draw(), shoe.draw()];
+    let playerTotal = handPoints(player);
+    let bankerTotal = handPoints(banker);
+
+    if (playerTotal < 8 && bankerTotal < 8) {
+      let playerThird: Card | null = null;
+      if (playerTotal <= 5) {
+        playerThird = shoe.draw();
+        player.push(playerThird);
+        playerTotal = handPoints(player);
+      }
+      if (bankerDraws(bankerTotal, playerThird)) {
+        banker.push(shoe.draw());
+        bankerTotal = handPoints(banker);
+      }
+    }
+
+    const unit = stake / units;
+    let returned = 0;
+
+    if (playerTotal === bankerTotal) {
+      // Banker and player bets push on a tie.
+      returned += bets.main === "tie" ? unit * (TIE_PAYS + 1) : unit;
+    } else if (bets.main === "player" && playerTotal > bankerTotal) {
+      returned += unit * 2;
+    } else if (bets.main === "banker" && bankerTotal > playerTotal) {
+      const bankerPays =
+        variant === "commission" ? 0.95 : bankerTotal === 6 ? 0.5 : 1;
+      returned += unit * (1 + bankerPays);
+    }
+
+    if (bets.sides.includes("player-pair") && player[0] === player[1]) {
+      returned += unit * (PAIR_PAYS + 1);
+    }
+    if (bets.sides.includes("banker-pair") && banker[0] === banker[1]) {
+      returned += unit * (PAIR_PAYS + 1);
+    }
+
+    return returned;
+  };
+
+  return { playRound };
+};
+
+/**
+ * Coup outcomes in multiples of the whole stake, estimated by dealing
+ * BACCARAT_ESTIMATE_ROUNDS coups from one shoe.
+ */
+export const estimateCoupDistribution = (
+  bets: BaccaratBets,
+  variant: BaccaratVariant,
+  rand: () => number,
+): Outcome[] => {
+  const table = createBaccaratTable(bets, variant, rand);
+  const counts = new Map<number, number>();
+
+  for (let round = 0; round < BACCARAT_ESTIMATE_ROUNDS; round++) {
+    const multiplier = Math.round(table.playRound(1) * 1e6) / 1e6;
+    counts.set(multiplier, (counts.get(multiplier) ?? 0) + 1);
+  }
+
+  return [...counts]
+    .sort((a, b) => a[0] - b[0])
+    .map(([multiplier, count]) => ({ multiplier, probability: count / BACCARAT_ESTIMATE_ROUNDS }));
+};
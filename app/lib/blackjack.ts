@@ -0,0 +1,336 @@
+import type { Outcome } from "./outcomes";
+
+export type BlackjackPayout = "3:2" | "6:5";
+
+export interface BlackjackRules {
+  decks: number;
+  /** Share of the shoe dealt before the cut card forces a reshuffle. */
+  penetration: number;
+  dealerHitsSoft17: boolean;
+  blackjackPayout: BlackjackPayout;
+  doubleAfterSplit: boolean;
+  /** Late surrender: half the bet back, only after the dealer peeks. */
+  surrender: boolean;
+}
+
+/** Cards are stored by value: 1 is an ace, 10 covers tens and faces. */
+type Card = number;
+
+/**
+ * Basic-strategy plays. Lowercase letters are the fallbacks of the uppercase
+ * ones: `d` doubles or stands, `r` surrenders or stands, `p` splits only when
+ * doubling after a split is allowed.
+ */
+type Play = "H" | "S" | "D" | "d" | "R" | "r" | "P" | "p";
+
+type Action = "hit" | "stand" | "double" | "split" | "surrender";
+
+interface Hand {
+  cards: Card[];
+  bet: number;
+  fromSplit: boolean;
+  splitAces: boolean;
+}
+
+export const blackjackPayouts: Record<BlackjackPayout, number> = {
+  "3:2": 1.5,
+  "6:5": 1.2,
+};
+
+export const defaultBlackjackRules: BlackjackRules = {
+  decks: 6,
+  penetration: 0.75,
+  dealerHitsSoft17: false,
+  blackjackPayout: "3:2",
+  doubleAfterSplit: true,
+  surrender: true,
+};
+
+const MAX_HANDS = 4;
+export const BLACKJACK_ESTIMATE_ROUNDS = 2_000_000;
+
+// Multi-deck, dealer-stands-on-soft-17 charts; columns are dealer 2–10, then ace.
+const hardChart: Record<number, string> = {
+  9: "HDDDDHHHHH",
+  10: "DDDDDDDDHH",
+  11: "DDDDDDDDDH",
+  12: "HHSSSHHHHH",
+  13: "SSSSSHHHHH",
+  14: "SSSSSHHHHH",
+  15: "SSSSSHHHRH",
+  16: "SSSSSHHRRR",
+};
+
+const softChart: Record<number, string> = {
+  13: "HHHDDHHHHH",
+  14: "HHHDDHHHHH",
+  15: "HHDDDHHHHH",
+  16: "HHDDDHHHHH",
+  17: "HDDDDHHHHH",
+  18: "SddddSSHHH",
+};
+
+const pairChart: Record<number, string> = {
+  1: "PPPPPPPPPP",
+  2: "ppPPPPHHHH",
+  3: "ppPPPPHHHH",
+  4: "HHHppHHHHH",
+  6: "pPPPPHHHHH",
+  7: "PPPPPPHHHH",
+  8: "PPPPPPPPPP",
+  9: "PPPPPSPPSS",
+};
+
+/** Where the chart changes when the dealer hits soft 17. */
+const hitSoft17Plays: Record<string, Play> = {
+  "hard-11-9": "D",
+  "hard-15-9": "R",
+  "hard-17-9": "r",
+  "soft-18-0": "d",
+  "soft-19-4": "d",
+};
+
+const handTotal = (cards: Card[]) => {
+  let total = 0;
+  let aces = 0;
+  for (const card of cards) {
+    total += card;
+    if (card === 1) {
+      aces += 1;
+    }
+  }
+
+  const soft = aces > 0 && total + 10 <= 21;
+  return { total: soft ? total + 10 : total, soft };
+};
+
+const isBlackjack = (cards: Card[]) => cards.length === 2 && handTotal(cards).total === 21;
+
+const dealerColumn = (upcard: Card) => (upcard === 1 ? 9 : upcard - 2);
+
+const chartPlay = (soft: boolean, total: number, column: number, rules: BlackjackRules): Play => {
+  const kind = soft ? "soft" : "hard";
+  const override = rules.dealerHitsSoft17 ? hitSoft17Plays[`${kind}-${total}-${column}`] : undefined;
+  if (override) {
+    return override;
+  }
+
+  const row = (soft ? softChart : hardChart)[total];
+  if (row) {
+    return row[column] as Play;
+  }
+  return total >= (soft ? 19 : 17) ? "S" : "H";
+};
+
+interface DecisionOptions {
+  canDouble: boolean;
+  canSplit: boolean;
+  canSurrender: boolean;
+}
+
+const basicStrategy = (
+  cards: Card[],
+  upcard: Card,
+  { canDouble, canSplit, canSurrender }: DecisionOptions,
+  rules: BlackjackRules,
+): Action => {
+  const column = dealerColumn(upcard);
+
+  if (canSplit && cards.length === 2 && cards[0] === cards[1]) {
+    const play = pairChart[cards[0]]?.[column];
+    if (play === "P" || (play === "p" && rules.doubleAfterSplit)) {
+      return "split";
+    }
+  }
+
+  const { total, soft } = handTotal(cards);
+  switch (chartPlay(soft, total, column, rules)) {
+    case "D":
+      return canDouble ? "double" : "hit";
+    case "d":
+      return canDouble ? "double" : "stand";
+    case "R":
+      return canSurrender ? "surrender" : "hit";
+    case "r":
+      return canSurrender ? "surrender" : "stand";
+    case "S":
+      return "stand";
+    default:
+      return "hit";
+  }
+};
+
+const createShoe = (decks: number, penetration: number, rand: () => number) => {
+  const cards: Card[] = [];
+  for (let deck = 0; deck < decks; deck++) {
+    for (let value = 1; value <= 10; value++) {
+      const copies = value === 10 ? 16 : 4;
+      for (let copy = 0; copy < copies; copy++) {
+        cards.push(value);
+      }
+    }
+  }
+
+  const cutCard = Math.floor(cards.length * penetration);
+  let position = cards.length;
+
+  const shuffle = () => {
+    for (let i = cards.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [cards[i], cards[j]] = [cards[j], cards[i]];
+    }
+    position = 0;
+  };
+
+  return {
+    /** Reshuffles at the start of a round once the cut card has come out. */
+    prepareRound: () => {
+      if (position >= cutCard) {
+        shuffle();
+      }
+    },
+    draw: (): Card => {
+      if (position >= cards.length) {
+        shuffle();
+      }
+      return cards[position++];
+    },
+  };
+};
+
+/** A round's payout and the money it put down, doubles and splits included. */
+export interface BlackjackRound {
+  payout: number;
+  wagered: number;
+}
+
+/**
+ * A table with its own shoe, dealt with `rand`. The player follows basic
+ * strategy, and only doubles or splits when `available` cash covers it.
+ */
+export const createBlackjackTable = (rules: BlackjackRules, rand: () => number) => {
+  const shoe = createShoe(rules.decks, rules.penetration, rand);
+  const blackjackPays = blackjackPayouts[rules.blackjackPayout];
+
+  /**
+   * Plays one round on `stake`. The payout is what the round is worth against
+   * that opening stake, so a lost double pays −stake.
+   */
+  const playRound = (stake: number, available: number = Infinity): BlackjackRound => {
+    shoe.prepareRound();
+    const first = shoe.draw();
+    const upcard = shoe.draw();
+    const playerCards = [first, shoe.draw()];
+    const dealerCards = [upcard, shoe.draw()];
+
+    // The dealer peeks, so a dealer blackjack only takes the original bet.
+    if (isBlackjack(playerCards)) {
+      const payout = isBlackjack(dealerCards) ? stake : stake + stake * blackjackPays;
+      return { payout, wagered: stake };
+    }
+    if (isBlackjack(dealerCards)) {
+      return { payout: 0, wagered: stake };
+    }
+
+    const hands: Hand[] = [{ cards: playerCards, bet: stake, fromSplit: false, splitAces: false }];
+    let committed = stake;
+    const canAfford = (amount: number) => committed + amount <= available + 1e-9;
+
+    for (let index = 0; index < hands.length; index++) {
+      const hand = hands[index];
+      if (hand.cards.length === 1) {
+        hand.cards.push(shoe.draw());
+      }
+      if (hand.splitAces) {
+        continue;
+      }
+
+      while (handTotal(hand.cards).total < 21) {
+        const opening = hand.cards.length === 2;
+        const action = basicStrategy(
+          hand.cards,
+          upcard,
+          {
+            canDouble:
+              opening && (!hand.fromSplit || rules.doubleAfterSplit) && canAfford(hand.bet),
+            canSplit: opening && hands.length < MAX_HANDS && canAfford(hand.bet),
+            canSurrender: rules.surrender && opening && hands.length === 1,
+          },
+          rules,
+        );
+
+        if (action === "surrender") {
+          return { payout: stake / 2, wagered: stake };
+        }
+        if (action === "stand") {
+          break;
+        }
+        if (action === "double") {
+          committed += hand.bet;
+          hand.bet *= 2;
+          hand.cards.push(shoe.draw());
+          break;
+        }
+        if (action === "split") {
+          committed += hand.bet;
+          const aces = hand.cards[0] === 1;
+          const [kept, moved] = hand.cards;
+          hands.splice(index + 1, 0, { cards: [moved], bet: hand.bet, fromSplit: true, splitAces: aces });
+          hand.cards = [kept, shoe.draw()];
+          hand.fromSplit = true;
+          hand.splitAces = aces;
+          if (aces) {
+            break;
+          }
+          continue;
+        }
+        hand.cards.push(shoe.draw());
+      }
+    }
+
+    const live = hands.filter((hand) => handTotal(hand.cards).total <= 21);
+    let dealer = handTotal(dealerCards);
+    if (live.length > 0) {
+      while (dealer.total < 17 || (dealer.total === 17 && dealer.soft && rules.dealerHitsSoft17)) {
+        dealerCards.push(shoe.draw());
+        dealer = handTotal(dealerCards);
+      }
+    }
+
+    let returned = 0;
+    for (const hand of live) {
+      const { total } = handTotal(hand.cards);
+      if (dealer.total > 21 || total > dealer.total) {
+        returned += hand.bet * 2;
+      } else if (total === dealer.total) {
+        returned += hand.bet;
+      }
+    }
+
+    return { payout: stake + returned - committed, wagered: committed };
+  };
+
+  return { playRound };
+};
+
+/**
+ * Round outcomes in multiples of the opening stake, estimated by dealing
+ * BLACKJACK_ESTIMATE_ROUNDS rounds. Blackjack has no closed form once the shoe,
+ * splits and doubles interact, so this is an estimate rather than exact.
+ */
+export const estimateRoundDistribution = (
+  rules: BlackjackRules,
+  rand: () => number,
+): Outcome[] => {
+  const table = createBlackjackTable(rules, rand);
+  const counts = new Map<number, number>();
+
+  for (let round = 0; round < BLACKJACK_ESTIMATE_ROUNDS; round++) {
+    const multiplier = Math.round(table.playRound(1).payout * 1e6) / 1e6;
+    counts.set(multiplier, (counts.get(multiplier) ?? 0) + 1);
+  }
+
+  return [...counts]
+    .sort((a, b) => a[0] - b[0])
+    .map(([multiplier, count]) => ({ multiplier, probability: count / BLACKJACK_ESTIMATE_ROUNDS }));
+};
@@ -0,0 +1,187 @@
+import { createCheckpointAggregate, createQuantileSketch, createRunningStats } from "./aggregate";
+import { chartSteps, createLineSampler, seedForIndex } from "./run-batch";
+import { createSeededRandom, createSharedJackpot, runSimulation } from "./simulation";
+import type { PercentileBands, SimulationSettings } from "./simulation";
+
+export const MAX_COMPARED_SETUPS = 4;
+
+export interface ComparisonRequest {
+  /** The first setup is the baseline every other one is measured against. */
+  setups: SimulationSettings[];
+  runCount: number;
+  baseSeed: number;
+}
+
+export interface SetupSummary {
+  mean: number[];
+  bands: PercentileBands;
+  finalMean: number;
+  finalP5: number;
+  finalMedian: number;
+  finalP95: number;
+  /** Share of runs that finished ahead. */
+  profitChance: number;
+  averageDrawdown: number;
+  worstDrawdown: number;
+  /** How long each run's largest drawdown lasted, in spins. */
+  averageDrawdownSpins: number;
+  longestDrawdownSpins: number;
+  /** Spin at which runs first reached their highest net, on average. */
+  averagePeakSpin: number;
+  bustChance: number;
+}
+
+/** One setup's net minus the baseline's, run for run on the same seeds. */
+export interface SetupDifference {
+  mean: number[];
+  bands: PercentileBands;
+  finalMean: number;
+  /** Standard error of `finalMean` with common random numbers. */
+  standardError: number;
+  /** What the standard error would be with separate seeds for each setup. */
+  independentError: number;
+  /** Share of seeds on which this setup finished ahead of the baseline. */
+  aheadChance: number;
+}
+
+export interface ComparisonResult {
+  completedRuns: number;
+  totalRuns: number;
+  /** Spin index of every chart column, spanning the longest setup. */
+  steps: number[];
+  summaries: SetupSummary[];
+  /** Entry `i` compares setup `i + 1` with the baseline. */
+  differences: SetupDifference[];
+}
+
+const FINAL_PROBABILITIES = [0.05, 0.5, 0.95];
+
+/** Holds a run's final net for the columns after it stopped. */
+const padLine = (sampled: number[], length: number) => {
+  const padded = sampled.slice(0, length);
+  const last = padded[padded.length - 1] ?? 0;
+  while (padded.length < length) {
+    padded.push(last);
+  }
+  return padded;
+};
+
+/**
+ * Plays every setup on run `i` with the seed of run `i`, so the setups share
+ * their random numbers and the luck of a seed largely cancels out of their
+ * differences.
+ */
+export const createComparisonBatch = ({ setups, runCount, baseSeed }: ComparisonRequest) => {
+  const totalRuns = Math.max(runCount, 1);
+  const steps = chartSteps(Math.max(...setups.map((setup) => setup.spins)));
+  const tracked = setups.map((setup) => ({
+    checkpoints: createCheckpointAggregate(steps.length, true),
+    finals: createRunningStats(),
+    finalSketch: createQuantileSketch(FINAL_PROBABILITIES),
+    drawdowns: createRunningStats(),
+    drawdownSpins: createRunningStats(),
+    peakSpins: createRunningStats(),
+    profitable: 0,
+    busts: 0,
+    jackpot: createSharedJackpot(setup, setup.spins * totalRuns),
+  }));
+  const differences = setups.slice(1).map(() => ({
+    checkpoints: createCheckpointAggregate(steps.length, true),
+    finals: createRunningStats(),
+    ahead: 0,
+  }));
+  let completedRuns = 0;
+
+  const runNext = () => {
+    const seed = seedForIndex(baseSeed, completedRuns);
+    const lines = setups.map((setup, index) => {
+      const entry = tracked[index];
+      const sampler = createLineSampler(steps);
+      const { summary } = runSimulation(setup, createSeededRandom(seed), {
+        recordPoints: false,
+        onSpin: sampler.observe,
+        jackpot: entry.jackpot ?? undefined,
+      });
+      const line = padLine(sampler.finish(), steps.length);
+
+      entry.checkpoints.addRun(line);
+      entry.finals.add(summary.finalNet);
+      entry.finalSketch.add(Math.round(summary.finalNet * 1e6) / 1e6);
+      entry.drawdowns.add(summary.maxDrawdown);
+      entry.drawdownSpins.add(summary.maxDrawdownSpins);
+      entry.peakSpins.add(summary.peakSpin);
+      if (summary.finalNet > 1e-9) {
+        entry.profitable += 1;
+      }
+      if (summary.bustSpin !== null) {
+        entry.busts += 1;
+      }
+      return line;
+    });
+
+    differences.forEach((difference, index) => {
+      const line = lines[index + 1];
+      const gap = line.map((net, column) => net - lines[0][column]);
+      const finalGap = gap[gap.length - 1];
+      difference.checkpoints.addRun(gap);
+      difference.finals.add(finalGap);
+      if (finalGap > 1e-9) {
+        difference.ahead += 1;
+      }
+    });
+
+    completedRuns += 1;
+  };
+
+  const snapshot = (): ComparisonResult => {
+    const finalStats = tracked.map((entry) => entry.finals.snapshot());
+
+    return {
+      completedRuns,
+      totalRuns,
+      steps,
+      summaries: tracked.map((entry, index) => {
+        const { mean, bands } = entry.checkpoints.snapshot();
+        const [finalP5, finalMedian, finalP95] = entry.finalSketch.quantiles();
+        const drawdowns = entry.drawdowns.snapshot();
+        const drawdownSpins = entry.drawdownSpins.snapshot();
+        return {
+          mean,
+          bands: bands!,
+          finalMean: finalStats[index].mean,
+          finalP5,
+          finalMedian,
+          finalP95,
+          profitChance: entry.profitable / Math.max(completedRuns, 1),
+          averageDrawdown: drawdowns.mean,
+          worstDrawdown: drawdowns.max,
+          averageDrawdownSpins: drawdownSpins.mean,
+          longestDrawdownSpins: drawdownSpins.max,
+          averagePeakSpin: entry.peakSpins.snapshot().mean,
+          bustChance: entry.busts / Math.max(completedRuns, 1),
+        };
+      }),
+      differences: differences.map((difference, index) => {
+        const { mean, bands } = difference.checkpoints.snapshot();
+        const finals = difference.finals.snapshot();
+        const runs = Math.max(completedRuns, 1);
+        return {
+          mean,
+          bands: bands!,
+          finalMean: finals.mean,
+          standardError: Math.sqrt(finals.variance / runs),
+          independentError: Math.sqrt(
+            (finalStats[0].variance + finalStats[index + 1].variance) / runs,
+          ),
+          aheadChance: difference.ahead / runs,
+        };
+      }),
+    };
+  };
+
+  return {
+    isDone: () => completedRuns >= totalRuns,
+    runNext,
+    snapshot,
+  };
+};
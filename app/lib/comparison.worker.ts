@@ -0,0 +1,24 @@
+import { createComparisonBatch } from "./comparison";
+import type { ComparisonRequest } from "./comparison";
+
+const SNAPSHOT_INTERVAL_MS = 150;
+
+// Mirrors the simulation worker: run synchronously, post snapshots, get terminated to cancel.
+addEventListener("message", (event: MessageEvent<ComparisonRequest>) => {
+  const batch = createComparisonBatch(event.data);
+  let interval = SNAPSHOT_INTERVAL_MS;
+  let lastPost = performance.now();
+
+  while (!batch.isDone()) {
+    batch.runNext();
+
+    if (!batch.isDone() && performance.now() - lastPost >= interval) {
+      const started = performance.now();
+      postMessage(batch.snapshot());
+      lastPost = performance.now();
+      interval = Math.max(SNAPSHOT_INTERVAL_MS, (lastPost - started) * 4);
+    }
+  }
+
+  postMessage(batch.snapshot());
+});
@@ -0,0 +1,221 @@
+import type { Outcome } from "./outcomes";
+
+export type PlaceNumber = 4 | 5 | 6 | 8 | 9 | 10;
+
+export type CrapsLineBet = "pass" | "dont-pass" | "come" | "field";
+
+/** Which bets the player keeps working; every bet is one stake unit. */
+export interface CrapsBets {
+  line: CrapsLineBet[];
+  place: PlaceNumber[];
+  /** Free odds behind each pass, don't pass and come bet, as a multiple of it. */
+  oddsMultiple: number;
+}
+
+/** A roll's net and how many bets it decided; most rolls decide none. */
+export interface CrapsRoll {
+  payout: number;
+  settled: number;
+  total: number;
+  /** New money put down on this roll; bets already working are not wagered again. */
+  wagered: number;
+}
+
+interface CrapsBetDefinition {
+  label: string;
+  description: string;
+  houseEdge: number;
+}
+
+interface ContractBet {
+  kind: "pass" | "dont-pass" | "come";
+  amount: number;
+  point: number | null;
+  odds: number;
+}
+
+export const placeNumbers: PlaceNumber[] = [4, 5, 6, 8, 9, 10];
+
+export const crapsLineBets: Record<CrapsLineBet, CrapsBetDefinition> = {
+  pass: {
+    label: "Pass line",
+    description: "Wins on a come-out 7 or 11, or when the point repeats before a 7.",
+    houseEdge: 7 / 495,
+  },
+  "dont-pass": {
+    label: "Don't pass",
+    description: "Bets against the shooter; a come-out 12 is a push.",
+    houseEdge: 3 / 220,
+  },
+  come: {
+    label: "Come",
+    description: "A pass bet started mid-hand; up to two ride at once.",
+    houseEdge: 7 / 495,
+  },
+  field: {
+    label: "Field",
+    description: "One roll: 2, 3, 4, 9, 10, 11, 12 win; 2 pays double, 12 triple.",
+    houseEdge: 1 / 36,
+  },
+};
+
+/** Place bets pay these multiples of the bet, and lose to a 7. */
+export const placePays: Record<PlaceNumber, number> = {
+  4: 9 / 5,
+  5: 7 / 5,
+  6: 7 / 6,
+  8: 7 / 6,
+  9: 7 / 5,
+  10: 9 / 5,
+};
+
+export const placeHouseEdge = (number: PlaceNumber) => {
+  const ways = 6 - Math.abs(7 - number);
+  const win = ways / (ways + 6);
+  return 1 - win * (1 + placePays[number]);
+};
+
+export const defaultCrapsBets: CrapsBets = {
+  line: ["pass"],
+  place: [],
+  oddsMultiple: 2,
+};
+
+const MAX_COME_BETS = 2;
+const POINT_NUMBERS = new Set([4, 5, 6, 8, 9, 10]);
+const FIELD_NUMBERS = new Set([2, 3, 4, 9, 10, 11, 12]);
+export const CRAPS_ESTIMATE_ROLLS = 1_000_000;
+
+/** What a winning odds bet pays per unit behind a pass or come point. */
+const trueOdds: Record<number, number> = { 4: 2, 5: 3 / 2, 6: 6 / 5, 8: 6 / 5, 9: 3 / 2, 10: 2 };
+
+/**
+ * A table where one shooter rolls throughout. Bets stay working across rolls
+ * and only move the net when they are decided.
+ */
+export const createCrapsTable = (bets: CrapsBets, rand: () => number) => {
+  const contracts: ContractBet[] = [];
+  const placed = new Map<PlaceNumber, number>();
+  let point: number | null = null;
+
+  const exposure = () =>
+    contracts.reduce((sum, bet) => sum + bet.amount + bet.odds, 0) +
+    [...placed.values()].reduce((sum, amount) => sum + amount, 0);
+
+  /** Places new bets on `stake`, rolls and settles whatever the dice decide. */
+  const playRoll = (stake: number, available: number = Infinity): CrapsRoll => {
+    let net = 0;
+    let settled = 0;
+    let onTable = exposure();
+    const openingExposure = onTable;
+    const settle = (amount: number) => {
+      net += amount;
+      settled += 1;
+    };
+    const afford = (amount: number) => {
+      if (onTable + amount > available + 1e-9) {
+        return false;
+      }
+      onTable += amount;
+      return true;
+    };
+    const wants = (bet: CrapsLineBet) => bets.line.includes(bet);
+
+    if (point === null) {
+      for (const kind of ["pass", "dont-pass"] as const) {
+        if (wants(kind) && !contracts.some((bet) => bet.kind === kind) && afford(stake)) {
+          contracts.push({ kind, amount: stake, point: null, odds: 0 });
+        }
+      }
+    } else {
+      const comeBets = contracts.filter((bet) => bet.kind === "come").length;
+      if (wants("come") && comeBets < MAX_COME_BETS && afford(stake)) {
+        contracts.push({ kind: "come", amount: stake, point: null, odds: 0 });
+      }
+      for (const number of bets.place) {
+        if (!placed.has(number) && afford(stake)) {
+          placed.set(number, stake);
+        }
+      }
+    }
+    const field = wants("field") && afford(stake) ? stake : 0;
+
+    const total = Math.floor(rand() * 6) + Math.floor(rand() * 6) + 2;
+
+    if (field > 0) {
+      settle(FIELD_NUMBERS.has(total) ? field * (total === 2 ? 2 : total === 12 ? 3 : 1) : -field);
+    }
+
+    for (let index = contracts.length - 1; index >= 0; index--) {
+      const bet = contracts[index];
+      const against = bet.kind === "dont-pass";
+      let decided = true;
+
+      if (bet.point === null) {
+        if (total === 7 || total === 11) {
+          settle(against ? -bet.amount : bet.amount);
+        } else if (total === 2 || total === 3) {
+          settle(against ? bet.amount : -bet.amount);
+        } else if (total === 12) {
+          settle(against ? 0 : -bet.amount);
+        } else {
+          bet.point = total;
+          const odds = bet.amount * bets.oddsMultiple;
+          bet.odds = odds > 0 && afford(odds) ? odds : 0;
+          decided = false;
+        }
+      } else if (total === 7 || total === bet.point) {
+        // Come odds are off on the come-out roll and go back to the player.
+        const odds = bet.kind === "come" && point === null ? 0 : bet.odds;
+        const playerWins = (total === 7) === against;
+        const oddsWin = against ? odds / trueOdds[bet.point] : odds * trueOdds[bet.point];
+        settle(playerWins ? bet.amount + oddsWin : -(bet.amount + odds));
+      } else {
+        decided = false;
+      }
+
+      if (decided) {
+        contracts.splice(index, 1);
+      }
+    }
+
+    // Place bets are off on the come-out roll.
+    if (point !== null) {
+      if (total === 7) {
+        placed.forEach((amount) => settle(-amount));
+        placed.clear();
+      } else if (placed.has(total as PlaceNumber)) {
+        settle(placed.get(total as PlaceNumber)! * placePays[total as PlaceNumber]);
+      }
+    }
+
+    if (point === null) {
+      point = POINT_NUMBERS.has(total) ? total : null;
+    } else if (total === 7 || total === point) {
+      point = null;
+    }
+
+    return { payout: stake + net, settled, total, wagered: onTable - openingExposure };
+  };
+
+  return { playRoll };
+};
+
+/**
+ * Roll outcomes in multiples of the stake unit, estimated from
+ * CRAPS_ESTIMATE_ROLLS rolls. Rolls depend on the bets already working, so
+ * this is the long-run mix rather than an independent per-roll law.
+ */
+export const estimateRollDistribution = (bets: CrapsBets, rand: () => number): Outcome[] => {
+  const table = createCrapsTable(bets, rand);
+  const counts = new Map<number, number>();
+
+  for (let roll = 0; roll < CRAPS_ESTIMATE_ROLLS; roll++) {
+    const multiplier = Math.round(table.playRoll(1).payout * 1e6) / 1e6;
+    counts.set(multiplier, (counts.get(multiplier) ?? 0) + 1);
+  }
+
+  return [...counts]
+    .sort((a, b) => a[0] - b[0])
+    .map(([multiplier, count]) => ({ multiplier, probability: count / CRAPS_ESTIMATE_ROLLS }));
+};
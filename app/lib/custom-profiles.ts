@@ -0,0 +1,63 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { validateOutcomes } from './outcomes';
+import type { CustomSlotProfile } from './simulation';
+
+const STORAGE_KEY = 'customSlotProfiles';
+
+const isCustomProfile = (value: unknown): value is CustomSlotProfile => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<CustomSlotProfile>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    Array.isArray(candidate.outcomes) &&
+    validateOutcomes(candidate.outcomes).length === 0
+  );
+};
+
+function readStoredProfiles(): CustomSlotProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isCustomProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const createProfileId = () => `custom-${Date.now().toString(36)}`;
+
+export function useCustomSlotProfiles() {
+  const [profiles, setProfiles] = useState<CustomSlotProfile[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setProfiles(readStoredProfiles());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    }
+  }, [profiles, loaded]);
+
+  const saveProfile = useCallback((profile: CustomSlotProfile) => {
+    setProfiles((prev) => {
+      const exists = prev.some((entry) => entry.id === profile.id);
+      return exists
+        ? prev.map((entry) => (entry.id === profile.id ? profile : entry))
+        : [...prev, profile];
+    });
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  return { profiles, saveProfile, deleteProfile };
+}
@@ -0,0 +1,189 @@
+import { spinDistribution, stakePerSpin } from "./simulation";
+import type { SimulationSettings } from "./simulation";
+
+export interface FinalOutcome {
+  net: number;
+  probability: number;
+}
+
+export interface FinalDistribution {
+  /** Net results in dollars, ascending, with their probabilities. */
+  pmf: FinalOutcome[];
+  probabilityOfProfit: number;
+  probabilityOfLoss: number;
+  mean: number;
+  quantiles: Record<"p5" | "p25" | "p50" | "p75" | "p95", number>;
+  /** False when the payouts had to be snapped to a coarser grid. */
+  exact: boolean;
+}
+
+const MAX_DENOMINATOR = 240;
+const MAX_FFT_SIZE = 1 << 22;
+const PROBABILITY_FLOOR = 1e-13;
+
+const latticeDenominator = (values: number[]) => {
+  for (let denominator = 1; denominator <= MAX_DENOMINATOR; denominator++) {
+    const fits = values.every(
+      (value) => Math.abs(value * denominator - Math.round(value * denominator)) < 1e-3,
+    );
+    if (fits) {
+      return denominator;
+    }
+  }
+  return null;
+};
+
+/** In-place iterative radix-2 FFT; `inverse` also rescales by 1/n. */
+const fft = (real: Float64Array, imag: Float64Array, inverse: boolean) => {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  const cosines = new Float64Array(n / 2);
+  const sines = new Float64Array(n / 2);
+  for (let k = 0; k < n / 2; k++) {
+    const angle = ((inverse ? 2 : -2) * Math.PI * k) / n;
+    cosines[k] = Math.cos(angle);
+    sines[k] = Math.sin(angle);
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size / 2;
+    const stride = n / size;
+
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const even = start + k;
+        const odd = even + half;
+        const wReal = cosines[k * stride];
+        const wImag = sines[k * stride];
+        const oddReal = real[odd] * wReal - imag[odd] * wImag;
+        const oddImag = real[odd] * wImag + imag[odd] * wReal;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      real[i] /= n;
+      imag[i] /= n;
+    }
+  }
+};
+
+const quantileOf = (pmf: FinalOutcome[], q: number) => {
+  let cumulative = 0;
+  for (const outcome of pmf) {
+    cumulative += outcome.probability;
+    if (cumulative >= q - 1e-12) {
+      return outcome.net;
+    }
+  }
+  return pmf[pmf.length - 1]?.net ?? 0;
+};
+
+/**
+ * Exact distribution of the final net after `spins` flat bets, found by
+ * convolving the single-spin distribution with itself in the frequency domain.
+ * Bankroll, betting strategy and session rules are not modelled. Returns null
+ * for craps, whose line and come bets carry from roll to roll so rolls are not
+ * independent, or when even a whole-unit grid would not fit the transform.
+ */
+export const finalDistribution = (
+  settings: SimulationSettings,
+  spins: number = settings.spins,
+): FinalDistribution | null => {
+  if (settings.machine === "craps") {
+    return null;
+  }
+
+  const stake = stakePerSpin(settings);
+  const outcomes = spinDistribution(settings).filter(({ probability }) => probability > 0);
+  const nets = outcomes.map(({ multiplier }) => multiplier - 1);
+  const minNet = Math.min(...nets);
+  const maxNet = Math.max(...nets);
+
+  let denominator = latticeDenominator(nets);
+  let exact = denominator !== null;
+  const spanFor = (value: number) => Math.round((maxNet - minNet) * value) * spins + 1;
+
+  if (denominator === null) {
+    denominator = MAX_DENOMINATOR;
+  }
+  while (denominator > 1 && spanFor(denominator) > MAX_FFT_SIZE) {
+    denominator = Math.floor(denominator / 2);
+    exact = false;
+  }
+
+  const span = spanFor(denominator);
+  if (span > MAX_FFT_SIZE) {
+    return null;
+  }
+
+  let size = 1;
+  while (size < span) {
+    size <<= 1;
+  }
+
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  outcomes.forEach(({ probability }, index) => {
+    real[Math.round((nets[index] - minNet) * denominator)] += probability;
+  });
+
+  fft(real, imag, false);
+  for (let i = 0; i < size; i++) {
+    const magnitude = Math.pow(Math.hypot(real[i], imag[i]), spins);
+    const phase = Math.atan2(imag[i], real[i]) * spins;
+    real[i] = magnitude * Math.cos(phase);
+    imag[i] = magnitude * Math.sin(phase);
+  }
+  fft(real, imag, true);
+
+  const offset = Math.round(minNet * denominator) * spins;
+  const pmf: FinalOutcome[] = [];
+  let total = 0;
+  for (let i = 0; i < span; i++) {
+    if (real[i] > PROBABILITY_FLOOR) {
+      pmf.push({ net: ((i + offset) / denominator) * stake, probability: real[i] });
+      total += real[i];
+    }
+  }
+  for (const outcome of pmf) {
+    outcome.probability /= total;
+  }
+
+  const sumWhere = (predicate: (net: number) => boolean) =>
+    pmf
+      .filter(({ net }) => predicate(net))
+      .reduce((sum, { probability }) => sum + probability, 0);
+
+  return {
+    pmf,
+    probabilityOfProfit: sumWhere((net) => net > 1e-9),
+    probabilityOfLoss: sumWhere((net) => net < -1e-9),
+    mean: pmf.reduce((sum, { net, probability }) => sum + net * probability, 0),
+    quantiles: {
+      p5: quantileOf(pmf, 0.05),
+      p25: quantileOf(pmf, 0.25),
+      p50: quantileOf(pmf, 0.5),
+      p75: quantileOf(pmf, 0.75),
+      p95: quantileOf(pmf, 0.95),
+    },
+    exact,
+  };
+};
@@ -0,0 +1,448 @@
+import { baccaratMainBets, baccaratSideBets, baccaratVariantLabels } from "./baccarat";
+import type { BaccaratBets, BaccaratVariant } from "./baccarat";
+import { blackjackPayouts } from "./blackjack";
+import type { BlackjackRules } from "./blackjack";
+import { crapsLineBets, placeNumbers } from "./craps";
+import type { CrapsBets } from "./craps";
+import { jackpotContributions } from "./jackpot";
+import type { ProgressiveJackpot } from "./jackpot";
+import { validateOutcomes } from "./outcomes";
+import { formsBet, rouletteBets, rouletteVariants, wheelFor } from "./roulette";
+import type { RouletteChip, RouletteVariant } from "./roulette";
+import { MAX_RUNS, MAX_SPINS } from "./run-batch";
+import { slotBonusModeLabels, slotProfileLabels } from "./simulation";
+import type {
+  BaseSimulationSettings,
+  CustomSlotProfile,
+  MachineType,
+  SessionRules,
+  SimulationSettings,
+  SlotBonusMode,
+  SlotProfile,
+} from "./simulation";
+import { bettingStrategies } from "./strategies";
+import type { BettingStrategyKind } from "./strategies";
+import { videoPokerPaytables } from "./video-poker";
+import type { VideoPokerPaytable } from "./video-poker";
+
+/** Bump when the query format changes, and keep a parser for every older version. */
+export const EXPERIMENT_URL_VERSION = 1;
+
+/** Everything needed to replay the same runs. */
+export interface Experiment {
+  settings: SimulationSettings;
+  runCount: number;
+  baseSeed: number;
+}
+
+export interface ParsedExperiment {
+  /** Null when the query holds no experiment, or any part of it is invalid. */
+  experiment: Experiment | null;
+  problems: string[];
+}
+
+const machines: MachineType[] = ["slot", "roulette", "blackjack", "craps", "baccarat", "video-poker"];
+const sessionRuleKeys: (keyof SessionRules)[] = ["winTarget", "lossLimit", "maxSpins", "maxMinutes"];
+const MAX_BET = 10_000;
+const MAX_TABLE = 1_000_000;
+const MAX_CHIP_UNITS = 1000;
+const SHARED_PROFILE_ID = "shared-link";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isKeyOf = <T extends string>(record: Record<T, unknown>, value: unknown): value is T =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(record, value);
+
+const isCustomProfile = (value: unknown): value is Omit<CustomSlotProfile, "id"> =>
+  isRecord(value) &&
+  typeof value.name === "string" &&
+  Array.isArray(value.outcomes) &&
+  value.outcomes.every(
+    (outcome) =>
+      isRecord(outcome) &&
+      typeof outcome.multiplier === "number" &&
+      typeof outcome.probability === "number",
+  ) &&
+  validateOutcomes(value.outcomes as CustomSlotProfile["outcomes"]).length === 0;
+
+const isJackpot = (value: unknown): value is ProgressiveJackpot =>
+  isRecord(value) &&
+  typeof value.contribution === "number" &&
+  jackpotContributions.includes(value.contribution) &&
+  typeof value.seed === "number" &&
+  value.seed > 0 &&
+  value.seed <= MAX_TABLE;
+
+const isRouletteLayout = (value: unknown, variant: RouletteVariant): value is RouletteChip[] => {
+  const pockets = new Set(wheelFor(variant).map((pocket) => pocket.id));
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (chip) =>
+        isRecord(chip) &&
+        isKeyOf(rouletteBets, chip.bet) &&
+        Array.isArray(chip.numbers) &&
+        chip.numbers.length === rouletteBets[chip.bet].numbers.length &&
+        chip.numbers.every((number) => pockets.has(number)) &&
+        formsBet(chip.bet, chip.numbers) &&
+        Number.isInteger(chip.units) &&
+        (chip.units as number) > 0 &&
+        (chip.units as number) <= MAX_CHIP_UNITS,
+    )
+  );
+};
+
+const isBlackjackRules = (value: unknown): value is BlackjackRules =>
+  isRecord(value) &&
+  Number.isInteger(value.decks) &&
+  (value.decks as number) >= 1 &&
+  (value.decks as number) <= 8 &&
+  typeof value.penetration === "number" &&
+  value.penetration >= 0.25 &&
+  value.penetration <= 0.95 &&
+  typeof value.dealerHitsSoft17 === "boolean" &&
+  isKeyOf(blackjackPayouts, value.blackjackPayout) &&
+  typeof value.doubleAfterSplit === "boolean" &&
+  typeof value.surrender === "boolean";
+
+const isCrapsBets = (value: unknown): value is CrapsBets =>
+  isRecord(value) &&
+  Array.isArray(value.line) &&
+  value.line.every((bet) => isKeyOf(crapsLineBets, bet)) &&
+  new Set(value.line).size === value.line.length &&
+  Array.isArray(value.place) &&
+  value.place.every((number) => placeNumbers.includes(number)) &&
+  value.line.length + value.place.length > 0 &&
+  Number.isInteger(value.oddsMultiple) &&
+  (value.oddsMultiple as number) >= 0 &&
+  (value.oddsMultiple as number) <= 100;
+
+const isBaccaratBets = (value: unknown): value is BaccaratBets =>
+  isRecord(value) &&
+  isKeyOf(baccaratMainBets, value.main) &&
+  Array.isArray(value.sides) &&
+  value.sides.every((side) => isKeyOf(baccaratSideBets, side)) &&
+  new Set(value.sides).size === value.sides.length;
+
+/** Writes an experiment as query parameters; nested setups are JSON. */
+export const encodeExperiment = ({ settings, runCount, baseSeed }: Experiment) => {
+  const params = new URLSearchParams();
+  params.set("v", String(EXPERIMENT_URL_VERSION));
+  params.set("machine", settings.machine);
+  params.set("spins", String(settings.spins));
+  params.set("bet", String(settings.betSize));
+  params.set("runs", String(runCount));
+  params.set("seed", String(baseSeed));
+  params.set("strategy", settings.strategy);
+  params.set("tableMax", String(settings.tableMax));
+  if (settings.startingBankroll !== null) {
+    params.set("bankroll", String(settings.startingBankroll));
+  }
+  for (const key of sessionRuleKeys) {
+    const value = settings.sessionRules[key];
+    if (value !== null) {
+      params.set(key, String(value));
+    }
+  }
+
+  switch (settings.machine) {
+    case "slot":
+      if (typeof settings.profile === "string") {
+        params.set("profile", settings.profile);
+      } else {
+        const { name, outcomes } = settings.profile;
+        params.set("profile", "custom");
+        params.set("custom", JSON.stringify({ name, outcomes }));
+      }
+      params.set("bonus", settings.bonus);
+      if (settings.jackpot) {
+        params.set("jackpot", JSON.stringify(settings.jackpot));
+      }
+      break;
+    case "roulette":
+      params.set("variant", settings.variant);
+      params.set("layout", JSON.stringify(settings.layout));
+      break;
+    case "blackjack":
+      params.set("rules", JSON.stringify(settings.rules));
+      break;
+    case "craps":
+      params.set("bets", JSON.stringify(settings.bets));
+      break;
+    case "baccarat":
+      params.set("variant", settings.variant);
+      params.set("bets", JSON.stringify(settings.bets));
+      break;
+    case "video-poker":
+      params.set("paytable", settings.paytable);
+      break;
+  }
+
+  return params;
+};
+
+/** Reads a version 1 query, collecting every problem rather than stopping at the first. */
+const parseVersion1 = (params: URLSearchParams): ParsedExperiment => {
+  const problems: string[] = [];
+
+  const readNumber = (
+    key: string,
+    min: number,
+    max: number,
+    { integer = false, optional = false } = {},
+  ): number | null => {
+    const raw = params.get(key);
+    if (raw === null) {
+      if (!optional) {
+        problems.push(`Missing "${key}".`);
+      }
+      return null;
+    }
+    const value = Number(raw);
+    if (
+      raw.trim() === "" ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > max ||
+      (integer && !Number.isInteger(value))
+    ) {
+      problems.push(`"${key}" must be ${integer ? "a whole number" : "a number"} from ${min} to ${max}.`);
+      return null;
+    }
+    return value;
+  };
+
+  const readKey = <T extends string>(key: string, record: Record<T, unknown>): T | null => {
+    const raw = params.get(key);
+    if (isKeyOf(record, raw)) {
+      return raw;
+    }
+    problems.push(raw === null ? `Missing "${key}".` : `Unknown ${key} "${raw}".`);
+    return null;
+  };
+
+  /** Parses a JSON parameter and checks its shape. */
+  const readJson = <T>(key: string, check: (value: unknown) => value is T): T | null => {
+    const raw = params.get(key);
+    if (raw === null) {
+      problems.push(`Missing "${key}".`);
+      return null;
+    }
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (check(value)) {
+        return value;
+      }
+    } catch {
+      // Reported below with the shape problems.
+    }
+    problems.push(`"${key}" is not a valid setup.`);
+    return null;
+  };
+
+  const machine = params.get("machine");
+  if (!machines.includes(machine as MachineType)) {
+    problems.push(machine === null ? 'Missing "machine".' : `Unknown machine "${machine}".`);
+  }
+
+  const spins = readNumber("spins", 1, MAX_SPINS, { integer: true });
+  const betSize = readNumber("bet", 0.01, MAX_BET);
+  const runCount = readNumber("runs", 1, MAX_RUNS, { integer: true });
+  const baseSeed = readNumber("seed", 0, 0xffffffff, { integer: true });
+  const strategy = readKey<BettingStrategyKind>("strategy", bettingStrategies);
+  const tableMax = readNumber("tableMax", 0.01, MAX_TABLE);
+  const startingBankroll = readNumber("bankroll", 0.01, MAX_TABLE, { optional: true });
+  const sessionRules = {} as SessionRules;
+  for (const key of sessionRuleKeys) {
+    sessionRules[key] = readNumber(key, 0.01, MAX_SPINS * MAX_BET, { optional: true });
+  }
+
+  const base = {
+    spins,
+    betSize,
+    strategy,
+    tableMax,
+    startingBankroll,
+    sessionRules,
+  } as BaseSimulationSettings;
+  let settings: SimulationSettings | null = null;
+
+  switch (machine as MachineType) {
+    case "slot": {
+      const profileKey = params.get("profile");
+      const profile: SlotProfile | CustomSlotProfile | null =
+        profileKey === "custom"
+          ? (() => {
+              const custom = readJson("custom", isCustomProfile);
+              return custom && { id: SHARED_PROFILE_ID, ...custom };
+            })()
+          : readKey<SlotProfile>("profile", slotProfileLabels);
+      const bonus = readKey<SlotBonusMode>("bonus", slotBonusModeLabels);
+      const jackpot = params.has("jackpot") ? readJson("jackpot", isJackpot) : null;
+      if (profile && bonus) {
+        settings = { ...base, machine: "slot", profile, bonus, jackpot };
+      }
+      break;
+    }
+    case "roulette": {
+      const variant = readKey<RouletteVariant>("variant", rouletteVariants);
+      const layout =
+        variant && readJson("layout", (value): value is RouletteChip[] => isRouletteLayout(value, variant));
+      if (variant && layout) {
+        settings = { ...base, machine: "roulette", variant, layout };
+      }
+      break;
+    }
+    case "blackjack": {
+      const rules = readJson("rules", isBlackjackRules);
+      if (rules) {
+        settings = { ...base, machine: "blackjack", rules };
+      }
+      break;
+    }
+    case "craps": {
+      const bets = readJson("bets", isCrapsBets);
+      if (bets) {
+        settings = { ...base, machine: "craps", bets };
+      }
+      break;
+    }
+    case "baccarat": {
+      const variant = readKey<BaccaratVariant>("variant", baccaratVariantLabels);
+      const bets = readJson("bets", isBaccaratBets);
+      if (variant && bets) {
+        settings = { ...base, machine: "baccarat", variant, bets };
+      }
+      break;
+    }
+    case "video-poker": {
+      const paytable = readKey<VideoPokerPaytable>("paytable", videoPokerPaytables);
+      if (paytable) {
+        settings = { ...base, machine: "video-poker", paytable };
+      }
+      break;
+    }
+  }
+
+  if (problems.length > 0 || settings === null || runCount === null || baseSeed === null) {
+    return { experiment: null, problems };
+  }
+  return { experiment: { settings, runCount, baseSeed }, problems };
+};
+
+const parsers: Record<number, (params: URLSearchParams) => ParsedExperiment> = {
+  1: parseVersion1,
+};
+
+/**
+ * Reads an experiment from a query string. A query without a version is not
+ * an experiment link; anything else is untrusted and checked field by field.
+ */
+export const parseExperiment = (search: string): ParsedExperiment => {
+  const params = new URLSearchParams(search);
+  const version = params.get("v");
+  if (version === null) {
+    return { experiment: null, problems: [] };
+  }
+
+  const parser = parsers[Number(version)];
+  if (!parser) {
+    return {
+      experiment: null,
+      problems: [
+        Number(version) > EXPERIMENT_URL_VERSION
+          ? "This link was made by a newer version of the simulator."
+          : `Unknown link version "${version}".`,
+      ],
+    };
+  }
+  return parser(params);
+};
+
+/** Top-level fields that must arrive with their own JSON type, not as text a query would accept. */
+const scalarFields: Record<string, { type: "number" | "string"; nullable?: boolean }> = {
+  spins: { type: "number" },
+  betSize: { type: "number" },
+  strategy: { type: "string" },
+  tableMax: { type: "number" },
+  startingBankroll: { type: "number", nullable: true },
+  machine: { type: "string" },
+  bonus: { type: "string" },
+  variant: { type: "string" },
+  paytable: { type: "string" },
+};
+
+const sharedFields = ["machine", "spins", "betSize", "strategy", "tableMax", "startingBankroll", "sessionRules"];
+
+/** Settings each machine cannot do without, beyond the shared ones. */
+const machineFields: Record<MachineType, string[]> = {
+  slot: ["profile", "bonus"],
+  roulette: ["variant", "layout"],
+  blackjack: ["rules"],
+  craps: ["bets"],
+  baccarat: ["variant", "bets"],
+  "video-poker": ["paytable"],
+};
+
+/**
+ * Checks an experiment that arrived as an object, such as an exported file or
+ * an API request. Every scalar must have its own type, and the setup then goes
+ * through the same checks as a shared link.
+ */
+export const checkExperiment = (value: unknown): ParsedExperiment => {
+  if (!isRecord(value) || !isRecord(value.settings)) {
+    return { experiment: null, problems: ["Missing the experiment settings."] };
+  }
+
+  const { settings } = value;
+  const problems: string[] = [];
+  for (const key of ["runCount", "baseSeed"]) {
+    if (typeof value[key] !== "number") {
+      problems.push(`"${key}" must be a number.`);
+    }
+  }
+  const required = [...sharedFields, ...(machineFields[settings.machine as MachineType] ?? [])];
+  for (const key of required) {
+    if (settings[key] === undefined) {
+      problems.push(`Missing "${key}".`);
+    }
+  }
+  for (const [key, { type, nullable = false }] of Object.entries(scalarFields)) {
+    const field = settings[key];
+    if (field === undefined || (nullable && field === null)) {
+      continue;
+    }
+    if (typeof field !== type) {
+      problems.push(`"${key}" must be a ${type}${nullable ? " or null" : ""}.`);
+    }
+  }
+  if (isRecord(settings.sessionRules)) {
+    for (const key of sessionRuleKeys) {
+      const rule = settings.sessionRules[key];
+      if (rule !== null && typeof rule !== "number") {
+        problems.push(`"sessionRules.${key}" must be a number or null.`);
+      }
+    }
+  } else if (settings.sessionRules !== undefined) {
+    problems.push('"sessionRules" must be an object.');
+  }
+  if (
+    settings.machine === "slot" &&
+    settings.profile !== undefined &&
+    typeof settings.profile !== "string" &&
+    !isRecord(settings.profile)
+  ) {
+    problems.push('"profile" must be a profile name or a custom profile.');
+  }
+  if (problems.length > 0) {
+    return { experiment: null, problems };
+  }
+
+  try {
+    return parseExperiment(`?${encodeExperiment(value as unknown as Experiment)}`);
+  } catch {
+    return { experiment: null, problems: ["The experiment could not be read."] };
+  }
+};
@@ -0,0 +1,116 @@
+import { checkExperiment } from "./experiment-url";
+import type { Experiment, ParsedExperiment } from "./experiment-url";
+import { seedForIndex } from "./run-batch";
+import type { SimulationLine, SimulationSummary } from "./simulation";
+
+/** Bump when the file layout changes, and teach `readExperimentFile` the old one. */
+export const EXPERIMENT_FILE_VERSION = 1;
+
+export interface ExperimentFile {
+  version: number;
+  exportedAt: string;
+  experiment: Experiment;
+  results: {
+    /** Spin index of every path column. */
+    steps: number[];
+    meanLine: number[];
+    /** The drawn runs, sampled on `steps`. */
+    paths: number[][];
+    /** Every run's summary in seed order, when the batch finished and kept them. */
+    runSummaries: SimulationSummary[] | null;
+  };
+}
+
+const summaryColumns: (keyof SimulationSummary)[] = [
+  "finalNet",
+  "spinsPlayed",
+  "betsResolved",
+  "totalStaked",
+  "totalWinSpins",
+  "totalLosingSpins",
+  "peak",
+  "peakSpin",
+  "trough",
+  "maxDrawdown",
+  "maxDrawdownSpins",
+  "spinStdDev",
+  "spinsUnderwater",
+  "longestWinStreak",
+  "longestLossStreak",
+  "bonusRounds",
+  "bonusPaid",
+  "bustSpin",
+  "exitReason",
+];
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | null)[][]) =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+
+/** One row per run, with the seed that replays it on its own. */
+export const runSummariesCsv = (summaries: SimulationSummary[], baseSeed: number) =>
+  toCsv([
+    ["run", "seed", ...summaryColumns],
+    ...summaries.map((summary, index) => [
+      index + 1,
+      seedForIndex(baseSeed, index),
+      ...summaryColumns.map((column) => summary[column]),
+    ]),
+  ]);
+
+/** One row per chart column: the spin, each drawn run's net, then the mean over all runs. */
+export const pathsCsv = (steps: number[], lines: SimulationLine[], meanLine: number[]) =>
+  toCsv([
+    ["spin", ...lines.map((_, index) => `run ${index + 1}`), "mean"],
+    ...steps.map((spin, column) => [
+      spin,
+      ...lines.map(({ points }) => points[Math.min(column, points.length - 1)] ?? null),
+      meanLine[column] ?? null,
+    ]),
+  ]);
+
+export const experimentFile = (
+  experiment: Experiment,
+  results: ExperimentFile["results"],
+): ExperimentFile => ({
+  version: EXPERIMENT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  experiment,
+  results,
+});
+
+/**
+ * Reads the experiment back out of an exported file. The file is untrusted,
+ * so its setup goes through the same checks as a shared link.
+ */
+export const readExperimentFile = (text: string): ParsedExperiment => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { experiment: null, problems: ["The file is not valid JSON."] };
+  }
+
+  if (typeof file !== "object" || file === null || !("version" in file)) {
+    return { experiment: null, problems: ["The file is not an exported experiment."] };
+  }
+  const { version } = file as { version: unknown };
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { experiment: null, problems: [`Unknown file version "${String(version)}".`] };
+  }
+  if (version > EXPERIMENT_FILE_VERSION) {
+    return {
+      experiment: null,
+      problems: ["This file was exported by a newer version of the simulator."],
+    };
+  }
+
+  return checkExperiment((file as { experiment?: unknown }).experiment);
+};
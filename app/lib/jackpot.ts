@@ -0,0 +1,118 @@
+import type { Outcome } from "./outcomes";
+
+/** A pot fed by every bet that pays instead of the top fixed prize. */
+export interface ProgressiveJackpot {
+  /** Share of every bet added to the pot. */
+  contribution: number;
+  /** Pot level, in dollars, at the start and after every win. */
+  seed: number;
+}
+
+export interface JackpotHit {
+  /** Spins played across the experiment when the pot was won. */
+  spin: number;
+  amount: number;
+}
+
+export interface JackpotHistory {
+  /** Spins played across the experiment at each sample. */
+  spins: number[];
+  levels: number[];
+  hits: JackpotHit[];
+  level: number;
+}
+
+export const jackpotContributions = [0.005, 0.01, 0.02, 0.05];
+export const jackpotSeeds = [100, 250, 1000, 5000];
+
+export const defaultJackpot: ProgressiveJackpot = {
+  contribution: 0.01,
+  seed: 250,
+};
+
+/** Long experiments keep an evenly spaced subset of pot levels. */
+const MAX_POT_SAMPLES = 1000;
+
+/** The highest fixed pay, which a progressive pot replaces. */
+export const topOutcome = (outcomes: Outcome[]): Outcome => {
+  const multiplier = Math.max(...outcomes.map((outcome) => outcome.multiplier));
+  const probability = outcomes
+    .filter((outcome) => outcome.multiplier === multiplier)
+    .reduce((total, outcome) => total + outcome.probability, 0);
+  return { multiplier, probability };
+};
+
+/** Outcomes with the top pay replaced by a `pot` dollar prize on a `betSize` bet. */
+export const withPotPay = (
+  outcomes: Outcome[],
+  topMultiplier: number,
+  pot: number,
+  betSize: number,
+): Outcome[] =>
+  outcomes.map((outcome) =>
+    outcome.multiplier === topMultiplier
+      ? { multiplier: pot / betSize, probability: outcome.probability }
+      : outcome,
+  );
+
+/** RTP with the pot at `level`, given the RTP at its seed; it rises linearly with the pot. */
+export const rtpAtLevel = (
+  rtpAtSeed: number,
+  top: Outcome,
+  { seed }: ProgressiveJackpot,
+  level: number,
+  betSize: number,
+) => rtpAtSeed + (top.probability * (level - seed)) / betSize;
+
+/** Pot level at which a spin returns its stake on average. */
+export const breakEvenPot = (
+  rtpAtSeed: number,
+  top: Outcome,
+  { seed }: ProgressiveJackpot,
+  betSize: number,
+) => seed + ((1 - rtpAtSeed) * betSize) / top.probability;
+
+/**
+ * A pot that outlives a single run. `plannedSpins` spaces the samples so an
+ * experiment keeps about MAX_POT_SAMPLES of them.
+ */
+export const createJackpotPot = (
+  { contribution, seed }: ProgressiveJackpot,
+  plannedSpins: number,
+) => {
+  const sampleEvery = Math.max(1, Math.ceil(plannedSpins / MAX_POT_SAMPLES));
+  const spins = [0];
+  const levels = [seed];
+  const hits: JackpotHit[] = [];
+  let level = seed;
+  let played = 0;
+
+  /** Adds a bet's share before its spin resolves. */
+  const feed = (stake: number) => {
+    level += stake * contribution;
+    played += 1;
+    if (played % sampleEvery === 0) {
+      spins.push(played);
+      levels.push(level);
+    }
+  };
+
+  /** Pays out the whole pot and reseeds it. */
+  const claim = () => {
+    const amount = level;
+    hits.push({ spin: played, amount });
+    level = seed;
+    return amount;
+  };
+
+  const snapshot = (): JackpotHistory => ({
+    spins: [...spins],
+    levels: [...levels],
+    hits: [...hits],
+    level,
+  });
+
+  return { feed, claim, snapshot };
+};
+
+export type JackpotPot = ReturnType<typeof createJackpotPot>;
@@ -0,0 +1,82 @@
+export interface Outcome {
+  probability: number;
+  multiplier: number;
+}
+
+export interface OutcomeStats {
+  rtp: number;
+  houseEdge: number;
+  hitRate: number;
+  /** Mean net result per unit staked. */
+  expectedValue: number;
+  variance: number;
+  standardDeviation: number;
+}
+
+const PROBABILITY_TOLERANCE = 1e-6;
+/** Largest pay a custom table may list, so nets stay finite over a long session. */
+export const MAX_MULTIPLIER = 1_000_000;
+
+export const outcomeStats = (outcomes: Outcome[]): OutcomeStats => {
+  const rtp = outcomes.reduce(
+    (total, { probability, multiplier }) => total + probability * multiplier,
+    0,
+  );
+  const hitRate = outcomes
+    .filter(({ multiplier }) => multiplier > 0)
+    .reduce((total, { probability }) => total + probability, 0);
+  const variance = outcomes.reduce(
+    (total, { probability, multiplier }) =>
+      total + probability * Math.pow(multiplier - rtp, 2),
+    0,
+  );
+
+  return {
+    rtp,
+    houseEdge: 1 - rtp,
+    hitRate,
+    expectedValue: rtp - 1,
+    variance,
+    standardDeviation: Math.sqrt(variance),
+  };
+};
+
+/** Returns a list of problems; an empty list means the table is usable. */
+export const validateOutcomes = (outcomes: Outcome[]): string[] => {
+  const errors: string[] = [];
+
+  if (outcomes.length === 0) {
+    errors.push("Add at least one outcome.");
+  }
+
+  outcomes.forEach(({ probability, multiplier }, index) => {
+    if (!Number.isFinite(probability) || !Number.isFinite(multiplier)) {
+      errors.push(`Row ${index + 1} needs numeric values.`);
+    } else if (probability < 0 || multiplier < 0) {
+      errors.push(`Row ${index + 1} has a negative value.`);
+    } else if (multiplier > MAX_MULTIPLIER) {
+      errors.push(`Row ${index + 1} pays more than ${MAX_MULTIPLIER.toLocaleString("en-US")}×.`);
+    }
+  });
+
+  const total = outcomes.reduce((sum, { probability }) => sum + probability, 0);
+  if (Number.isFinite(total) && Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+    errors.push(`Probabilities sum to ${total.toFixed(6)}, not 1.`);
+  }
+
+  return errors;
+};
+
+export const randomFromDistribution = (outcomes: Outcome[], rand: () => number) => {
+  const roll = rand();
+  let cumulative = 0;
+
+  for (const outcome of outcomes) {
+    cumulative += outcome.probability;
+    if (roll <= cumulative) {
+      return outcome.multiplier;
+    }
+  }
+
+  return outcomes[outcomes.length - 1]?.multiplier ?? 0;
+};
@@ -0,0 +1,291 @@
+import type { Outcome } from "./outcomes";
+
+export type ReelSymbol =
+  | "cherry"
+  | "lemon"
+  | "bell"
+  | "bar"
+  | "seven"
+  | "wild"
+  | "scatter"
+  | "blank";
+
+interface ReelSymbolDefinition {
+  label: string;
+  glyph: string;
+  wild?: boolean;
+  scatter?: boolean;
+}
+
+/** Free spins started by scatters, optionally bought outright. */
+export interface BonusFeature {
+  /** Scatters anywhere in the window that start the round, or add to it. */
+  triggerScatters: number;
+  freeSpins: number;
+  /** Free spins added each time the trigger lands again during the round. */
+  retriggerSpins: number;
+  /** Applied to every win during free spins. */
+  multiplier: number;
+  /** Price of buying straight into the round, as a multiple of the total bet. */
+  buyCost: number;
+}
+
+export interface ReelMachine {
+  /** Visible rows per reel; the stop lands on the middle row. */
+  rows: number;
+  reels: ReelSymbol[][];
+  /** Row index per reel for every line, e.g. `[1, 1, 1]` is the centre line. */
+  paylines: number[][];
+  /** Line pays by left-aligned run length, as multiples of the line bet. */
+  paytable: Partial<Record<ReelSymbol, number[]>>;
+  /** Scatter pays by count anywhere in the window, as multiples of the total bet. */
+  scatterPays: number[];
+  bonus?: BonusFeature;
+}
+
+export interface MachineStats {
+  rtp: number;
+  hitFrequency: number;
+  outcomes: Outcome[];
+  combinations: number;
+  /** Chance that a spin starts the bonus round; 0 without one. */
+  bonusChance: number;
+  /** Base-game pays of the spins that start the bonus, which pay on top. */
+  bonusTriggerOutcomes: Outcome[];
+}
+
+export interface BonusStats {
+  baseRtp: number;
+  /** RTP added by free spins, spread over every paid spin. */
+  bonusRtp: number;
+  triggerChance: number;
+  /** Free spins a round lasts on average, retriggers included. */
+  expectedSpins: number;
+  /** Average round value as a multiple of the total bet. */
+  roundValue: number;
+  /** Return when every round is bought. */
+  buyRtp: number;
+}
+
+export const reelSymbols: Record<ReelSymbol, ReelSymbolDefinition> = {
+  cherry: { label: "Cherry", glyph: "🍒" },
+  lemon: { label: "Lemon", glyph: "🍋" },
+  bell: { label: "Bell", glyph: "🔔" },
+  bar: { label: "Bar", glyph: "▬" },
+  seven: { label: "Seven", glyph: "7" },
+  wild: { label: "Wild", glyph: "★", wild: true },
+  scatter: { label: "Scatter", glyph: "◆", scatter: true },
+  blank: { label: "Blank", glyph: "·" },
+};
+
+/**
+ * Builds a reel strip from symbol counts, spreading each symbol as evenly as
+ * possible so that high pays are not stacked next to each other.
+ */
+export const buildStrip = (counts: Partial<Record<ReelSymbol, number>>): ReelSymbol[] => {
+  const entries = (Object.entries(counts) as [ReelSymbol, number][])
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1]);
+  const slots: { symbol: ReelSymbol; position: number }[] = [];
+
+  for (const [symbol, count] of entries) {
+    for (let index = 0; index < count; index++) {
+      slots.push({ symbol, position: (index + 0.5) / count });
+    }
+  }
+
+  return slots
+    .sort((a, b) => a.position - b.position)
+    .map((slot) => slot.symbol);
+};
+
+const windowSymbol = (machine: ReelMachine, reel: number, stop: number, row: number) => {
+  const strip = machine.reels[reel];
+  const offset = row - Math.floor(machine.rows / 2);
+  return strip[(((stop + offset) % strip.length) + strip.length) % strip.length];
+};
+
+const linePay = (machine: ReelMachine, symbols: ReelSymbol[]) => {
+  const anchor = symbols.find((symbol) => !reelSymbols[symbol].wild) ?? symbols[0];
+  if (reelSymbols[anchor].scatter) {
+    return 0;
+  }
+
+  let run = 0;
+  let wildRun = 0;
+  for (const symbol of symbols) {
+    if (symbol !== anchor && !reelSymbols[symbol].wild) {
+      break;
+    }
+    run += 1;
+  }
+  for (const symbol of symbols) {
+    if (!reelSymbols[symbol].wild) {
+      break;
+    }
+    wildRun += 1;
+  }
+
+  const anchorPay = machine.paytable[anchor]?.[run - 1] ?? 0;
+  const wildPay = wildRun > 0 ? machine.paytable.wild?.[wildRun - 1] ?? 0 : 0;
+  return Math.max(anchorPay, wildPay);
+};
+
+const countScatters = (machine: ReelMachine, stops: number[]) => {
+  let scatters = 0;
+  for (let reel = 0; reel < machine.reels.length; reel++) {
+    for (let row = 0; row < machine.rows; row++) {
+      if (reelSymbols[windowSymbol(machine, reel, stops[reel], row)].scatter) {
+        scatters += 1;
+      }
+    }
+  }
+  return scatters;
+};
+
+/** Total payout for the stopped reels as a multiple of the total bet. */
+export const evaluateStops = (machine: ReelMachine, stops: number[]) => {
+  const lineShare = 1 / machine.paylines.length;
+  let multiplier = 0;
+
+  for (const line of machine.paylines) {
+    const symbols = line.map((row, reel) => windowSymbol(machine, reel, stops[reel], row));
+    multiplier += linePay(machine, symbols) * lineShare;
+  }
+
+  const scatters = countScatters(machine, stops);
+  if (scatters > 0) {
+    multiplier += machine.scatterPays[scatters - 1] ?? 0;
+  }
+
+  return Math.round(multiplier * 1e6) / 1e6;
+};
+
+export const spinReels = (machine: ReelMachine, rand: () => number) => {
+  const stops = machine.reels.map((strip) =>
+    Math.min(strip.length - 1, Math.floor(rand() * strip.length)),
+  );
+  const scatters = countScatters(machine, stops);
+  return {
+    stops,
+    multiplier: evaluateStops(machine, stops),
+    triggersBonus: machine.bonus !== undefined && scatters >= machine.bonus.triggerScatters,
+  };
+};
+
+/** Rounds stop here even if retriggers keep coming; it is never reached in practice. */
+const MAX_FREE_SPINS = 500;
+export const BONUS_ESTIMATE_ROUNDS = 200_000;
+
+/** Plays a machine's free spins; returns their total as a multiple of the total bet. */
+export const playBonusRound = (machine: ReelMachine, rand: () => number) => {
+  const { freeSpins, retriggerSpins, multiplier } = machine.bonus!;
+  let remaining = freeSpins;
+  let played = 0;
+  let total = 0;
+
+  while (remaining > 0 && played < MAX_FREE_SPINS) {
+    const spin = spinReels(machine, rand);
+    total += spin.multiplier * multiplier;
+    remaining += spin.triggersBonus ? retriggerSpins - 1 : -1;
+    played += 1;
+  }
+
+  return { total, spins: played };
+};
+
+const statsCache = new WeakMap<ReelMachine, MachineStats>();
+
+/** Exact RTP and hit frequency from every reel stop combination. */
+export const analyzeMachine = (machine: ReelMachine): MachineStats => {
+  const cached = statsCache.get(machine);
+  if (cached) {
+    return cached;
+  }
+
+  const combinations = machine.reels.reduce((total, strip) => total * strip.length, 1);
+  const counts = new Map<number, number>();
+  const triggerCounts = new Map<number, number>();
+  const stops = machine.reels.map(() => 0);
+
+  for (let combination = 0; combination < combinations; combination++) {
+    const multiplier = evaluateStops(machine, stops);
+    counts.set(multiplier, (counts.get(multiplier) ?? 0) + 1);
+    if (machine.bonus && countScatters(machine, stops) >= machine.bonus.triggerScatters) {
+      triggerCounts.set(multiplier, (triggerCounts.get(multiplier) ?? 0) + 1);
+    }
+
+    for (let reel = stops.length - 1; reel >= 0; reel--) {
+      stops[reel] += 1;
+      if (stops[reel] < machine.reels[reel].length) {
+        break;
+      }
+      stops[reel] = 0;
+    }
+  }
+
+  const toOutcomes = (table: Map<number, number>) =>
+    Array.from(table, ([multiplier, count]) => ({
+      multiplier,
+      probability: count / combinations,
+    })).sort((a, b) => a.multiplier - b.multiplier);
+  const outcomes = toOutcomes(counts);
+  const bonusTriggerOutcomes = toOutcomes(triggerCounts);
+
+  const stats = {
+    rtp: outcomes.reduce((total, { probability, multiplier }) => total + probability * multiplier, 0),
+    hitFrequency: outcomes
+      .filter(({ multiplier }) => multiplier > 0)
+      .reduce((total, { probability }) => total + probability, 0),
+    outcomes,
+    combinations,
+    bonusChance: bonusTriggerOutcomes.reduce((total, { probability }) => total + probability, 0),
+    bonusTriggerOutcomes,
+  };
+
+  statsCache.set(machine, stats);
+  return stats;
+};
+
+/**
+ * Exact base and bonus shares of the RTP. A round is worth its expected free
+ * spins times the boosted base RTP, where each free spin retriggers with the
+ * same chance as a paid one.
+ */
+export const analyzeBonus = (machine: ReelMachine): BonusStats | null => {
+  if (!machine.bonus) {
+    return null;
+  }
+
+  const { rtp, bonusChance } = analyzeMachine(machine);
+  const { freeSpins, retriggerSpins, multiplier, buyCost } = machine.bonus;
+  const expectedSpins = freeSpins / (1 - bonusChance * retriggerSpins);
+  const roundValue = expectedSpins * multiplier * rtp;
+
+  return {
+    baseRtp: rtp,
+    bonusRtp: bonusChance * roundValue,
+    triggerChance: bonusChance,
+    expectedSpins,
+    roundValue,
+    buyRtp: roundValue / buyCost,
+  };
+};
+
+/**
+ * Bonus round totals as multiples of the total bet, estimated from
+ * BONUS_ESTIMATE_ROUNDS played rounds.
+ */
+export const estimateBonusRounds = (machine: ReelMachine, rand: () => number): Outcome[] => {
+  const counts = new Map<number, number>();
+
+  for (let round = 0; round < BONUS_ESTIMATE_ROUNDS; round++) {
+    const total = Math.round(playBonusRound(machine, rand).total * 1e6) / 1e6;
+    counts.set(total, (counts.get(total) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([multiplier, count]) => ({
+    multiplier,
+    probability: count / BONUS_ESTIMATE_ROUNDS,
+  })).sort((a, b) => a.multiplier - b.multiplier);
+};
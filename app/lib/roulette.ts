@@ -0,0 +1,317 @@
+import { outcomeStats } from "./outcomes";
+import type { Outcome } from "./outcomes";
+
+export type RouletteBet =
+  | "single-number"
+  | "split"
+  | "street"
+  | "dozen"
+  | "even-money";
+
+export type RouletteVariant =
+  | "european"
+  | "american"
+  | "french-la-partage"
+  | "french-en-prison";
+
+export type PocketColor = "red" | "black" | "green";
+
+export interface Pocket {
+  id: number;
+  label: string;
+  color: PocketColor;
+}
+
+interface RouletteVariantDefinition {
+  label: string;
+  description: string;
+  doubleZero: boolean;
+}
+
+interface RouletteBetDefinition {
+  numbers: number[];
+  multiplier: number;
+  evenMoney: boolean;
+  name: string;
+  label: string;
+}
+
+export interface RouletteChip {
+  bet: RouletteBet;
+  numbers: number[];
+  units: number;
+}
+
+export interface RouletteSpin {
+  payout: number;
+  pocket: number;
+  /** Pocket of the En Prison release spin, when a zero sent even-money chips to prison. */
+  released: number | null;
+}
+
+const DOUBLE_ZERO_ID = 37;
+
+const redNumbers = new Set([
+  1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36,
+]);
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+const colorNumbers = (red: boolean) =>
+  range(1, 36).filter((id) => redNumbers.has(id) === red);
+
+export const pocketLabel = (id: number) =>
+  id === DOUBLE_ZERO_ID ? "00" : String(id);
+
+export const pocketColor = (id: number): PocketColor => {
+  if (id === 0 || id === DOUBLE_ZERO_ID) {
+    return "green";
+  }
+  return redNumbers.has(id) ? "red" : "black";
+};
+
+const buildWheel = (doubleZero: boolean): Pocket[] => {
+  const ids = doubleZero ? [...range(0, 36), DOUBLE_ZERO_ID] : range(0, 36);
+
+  return ids.map((id) => ({
+    id,
+    label: pocketLabel(id),
+    color: pocketColor(id),
+  }));
+};
+
+export const rouletteVariants: Record<RouletteVariant, RouletteVariantDefinition> = {
+  european: {
+    label: "European",
+    description: "Single zero wheel, 37 pockets.",
+    doubleZero: false,
+  },
+  american: {
+    label: "American",
+    description: "Extra 00 pocket nearly doubles the edge.",
+    doubleZero: true,
+  },
+  "french-la-partage": {
+    label: "French · La Partage",
+    description: "Half of an even-money bet comes back on zero.",
+    doubleZero: false,
+  },
+  "french-en-prison": {
+    label: "French · En Prison",
+    description: "Even-money bets are held for one more spin on zero.",
+    doubleZero: false,
+  },
+};
+
+const wheels: Record<"single" | "double", Pocket[]> = {
+  single: buildWheel(false),
+  double: buildWheel(true),
+};
+
+export const wheelFor = (variant: RouletteVariant): Pocket[] =>
+  rouletteVariants[variant].doubleZero ? wheels.double : wheels.single;
+
+export const rouletteBets: Record<RouletteBet, RouletteBetDefinition> = {
+  "single-number": {
+    numbers: [17],
+    multiplier: 36,
+    evenMoney: false,
+    name: "Straight",
+    label: "Single Number (35:1)",
+  },
+  split: {
+    numbers: [17, 20],
+    multiplier: 18,
+    evenMoney: false,
+    name: "Split",
+    label: "Split (17:1)",
+  },
+  street: {
+    numbers: [16, 17, 18],
+    multiplier: 12,
+    evenMoney: false,
+    name: "Street",
+    label: "Street (11:1)",
+  },
+  dozen: {
+    numbers: range(1, 12),
+    multiplier: 3,
+    evenMoney: false,
+    name: "Dozen",
+    label: "Dozen (2:1)",
+  },
+  "even-money": {
+    numbers: colorNumbers(true),
+    multiplier: 2,
+    evenMoney: true,
+    name: "Even money",
+    label: "Red / Black (1:1)",
+  },
+};
+
+const outsideChip = (
+  bet: RouletteBet,
+  numbers: number[],
+): Omit<RouletteChip, "units"> => ({ bet, numbers });
+
+export const outsideBets: { label: string; chip: Omit<RouletteChip, "units"> }[] = [
+  { label: "1st 12", chip: outsideChip("dozen", range(1, 12)) },
+  { label: "2nd 12", chip: outsideChip("dozen", range(13, 24)) },
+  { label: "3rd 12", chip: outsideChip("dozen", range(25, 36)) },
+  { label: "1–18", chip: outsideChip("even-money", range(1, 18)) },
+  {
+    label: "Even",
+    chip: outsideChip("even-money", range(1, 36).filter((id) => id % 2 === 0)),
+  },
+  { label: "Red", chip: outsideChip("even-money", colorNumbers(true)) },
+  { label: "Black", chip: outsideChip("even-money", colorNumbers(false)) },
+  {
+    label: "Odd",
+    chip: outsideChip("even-money", range(1, 36).filter((id) => id % 2 === 1)),
+  },
+  { label: "19–36", chip: outsideChip("even-money", range(19, 36)) },
+];
+
+/**
+ * Whether `numbers` are a placement the table offers for `bet`: adjacent
+ * pockets for a split, a row for a street, and one of the printed boxes for
+ * the outside bets.
+ */
+export const formsBet = (bet: RouletteBet, numbers: number[]) => {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  if (sorted.length !== rouletteBets[bet].numbers.length || new Set(sorted).size !== sorted.length) {
+    return false;
+  }
+
+  switch (bet) {
+    case "single-number":
+      return true;
+    case "split": {
+      const [low, high] = sorted;
+      return low >= 1 && high <= 36 && (high - low === 3 || (high - low === 1 && low % 3 !== 0));
+    }
+    case "street":
+      return sorted[0] >= 1 && sorted[2] <= 36 && sorted[0] % 3 === 1 && sorted[2] - sorted[0] === 2;
+    case "dozen":
+    case "even-money":
+      return outsideBets.some(
+        ({ chip }) =>
+          chip.bet === bet && chip.numbers.every((number, index) => number === sorted[index]),
+      );
+  }
+};
+
+export const winProbability = (bet: RouletteBet, variant: RouletteVariant) =>
+  rouletteBets[bet].numbers.length / wheelFor(variant).length;
+
+export const drawPocket = (wheel: Pocket[], rand: () => number): Pocket =>
+  wheel[Math.min(wheel.length - 1, Math.floor(rand() * wheel.length))];
+
+const pocketPayout = (
+  chip: RouletteChip,
+  stake: number,
+  pocket: number,
+  variant: RouletteVariant,
+  released: number | null,
+) => {
+  const definition = rouletteBets[chip.bet];
+
+  if (chip.numbers.includes(pocket)) {
+    return stake * definition.multiplier;
+  }
+
+  if (!definition.evenMoney || pocket !== 0) {
+    return 0;
+  }
+
+  if (variant === "french-la-partage") {
+    return stake / 2;
+  }
+
+  // En Prison: the stake rides the release spin and is only returned on a win.
+  if (variant === "french-en-prison" && released !== null) {
+    return chip.numbers.includes(released) ? stake : 0;
+  }
+
+  return 0;
+};
+
+const needsRelease = (layout: RouletteChip[], variant: RouletteVariant, pocket: number) =>
+  variant === "french-en-prison" &&
+  pocket === 0 &&
+  layout.some((chip) => rouletteBets[chip.bet].evenMoney);
+
+export const layoutUnits = (layout: RouletteChip[]) =>
+  layout.reduce((total, chip) => total + chip.units, 0);
+
+export const presetLayout = (bet: RouletteBet): RouletteChip[] => [
+  { bet, numbers: rouletteBets[bet].numbers, units: 1 },
+];
+
+/**
+ * Resolves every chip in the layout against a single drawn pocket, plus the
+ * release spin En Prison plays after a zero. `stake` is the total wager and
+ * is split across chips by their unit count.
+ */
+export const spinRoulette = (
+  layout: RouletteChip[],
+  variant: RouletteVariant,
+  stake: number,
+  rand: () => number,
+): RouletteSpin => {
+  const wheel = wheelFor(variant);
+  const totalUnits = layoutUnits(layout);
+  const pocket = drawPocket(wheel, rand).id;
+  const released = needsRelease(layout, variant, pocket)
+    ? drawPocket(wheel, rand).id
+    : null;
+
+  const payout = layout.reduce(
+    (total, chip) =>
+      total +
+      pocketPayout(chip, (stake * chip.units) / totalUnits, pocket, variant, released),
+    0,
+  );
+
+  return { payout, pocket, released };
+};
+
+/** Exact payout distribution per unit wagered on the layout. */
+export const layoutDistribution = (
+  layout: RouletteChip[],
+  variant: RouletteVariant,
+): Outcome[] => {
+  const wheel = wheelFor(variant);
+  const totalUnits = layoutUnits(layout);
+  const byMultiplier = new Map<number, number>();
+
+  const add = (multiplier: number, probability: number) => {
+    byMultiplier.set(multiplier, (byMultiplier.get(multiplier) ?? 0) + probability);
+  };
+
+  const payoutFor = (pocket: number, released: number | null) =>
+    layout.reduce(
+      (total, chip) =>
+        total + pocketPayout(chip, chip.units / totalUnits, pocket, variant, released),
+      0,
+    );
+
+  for (const { id } of wheel) {
+    if (needsRelease(layout, variant, id)) {
+      for (const release of wheel) {
+        add(payoutFor(id, release.id), 1 / (wheel.length * wheel.length));
+      }
+    } else {
+      add(payoutFor(id, null), 1 / wheel.length);
+    }
+  }
+
+  return Array.from(byMultiplier, ([multiplier, probability]) => ({
+    probability,
+    multiplier,
+  })).sort((a, b) => a.multiplier - b.multiplier);
+};
+
+export const layoutStats = (layout: RouletteChip[], variant: RouletteVariant) =>
+  outcomeStats(layoutDistribution(layout, variant));
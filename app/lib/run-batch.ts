@@ -0,0 +1,260 @@
+import { createBucketedCounts, createCheckpointAggregate } from "./aggregate";
+import type { JackpotHistory } from "./jackpot";
+import { createSeededRandom, createSharedJackpot, runSimulation } from "./simulation";
+import type {
+  PercentileBands,
+  SessionExit,
+  SimulationLine,
+  SimulationSettings,
+  SimulationSummary,
+} from "./simulation";
+
+export const MAX_RUNS = 100_000;
+export const MAX_SPINS = 100_000;
+export const MAX_DISPLAY_RUNS = 100;
+export const POCKET_HISTORY_LENGTH = 24;
+/** The seed the page opens on, and the command line's default. */
+export const BASELINE_SEED = 9645231;
+/** Long runs are drawn on an evenly spaced subset of spins. */
+const MAX_CHART_POINTS = 1001;
+const SEED_STEP = 9973;
+
+export const seedForIndex = (base: number, index: number) =>
+  (base + index * SEED_STEP) >>> 0;
+
+export interface BatchRequest {
+  settings: SimulationSettings;
+  runCount: number;
+  baseSeed: number;
+  withBands: boolean;
+  /** Keep every run's summary for export; memory then grows with the run count. */
+  withSummaries: boolean;
+}
+
+export interface ExitTotal {
+  count: number;
+  totalNet: number;
+}
+
+export interface TailTotals {
+  count: number;
+  totalFinal: number;
+  winSpins: number;
+  lossSpins: number;
+  spinsPlayed: number;
+  spinsUnderwater: number;
+  drawdownTotal: number;
+  worstDrawdown: number;
+  drawdownSpinsTotal: number;
+  longestDrawdownSpins: number;
+  peakSpinTotal: number;
+  spinStdDevTotal: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  totalStaked: number;
+  bonusPaid: number;
+  bonusRounds: number;
+}
+
+export interface BatchResult {
+  completedRuns: number;
+  totalRuns: number;
+  /** Spin index of every chart column. */
+  steps: number[];
+  meanLine: number[];
+  /** Lowest and highest net any run held at each chart column. */
+  extremes: { min: number[]; max: number[] };
+  /** The first runs, sampled on `steps`. */
+  displayLines: SimulationLine[];
+  tail: TailTotals;
+  totalFinal: number;
+  bustCount: number;
+  exitTotals: Map<SessionExit, ExitTotal>;
+  pocketCounts: Map<number, number>;
+  /** The last pockets of the first run, oldest first. */
+  pocketHistory: number[];
+  /**
+   * How many runs finished on each net, to the nearest millionth until there
+   * are too many distinct nets, then in buckets keyed by their mean.
+   */
+  finalCounts: Map<number, number>;
+  percentileBands: PercentileBands | null;
+  /** The progressive pot every run fed, when the slot plays one. */
+  jackpot: JackpotHistory | null;
+  /** Every run's summary in seed order, when asked for; only the final snapshot carries them. */
+  runSummaries: SimulationSummary[] | null;
+}
+
+export const chartSteps = (spins: number) =>
+  spins < MAX_CHART_POINTS
+    ? Array.from({ length: spins + 1 }, (_, index) => index)
+    : Array.from({ length: MAX_CHART_POINTS }, (_, index) =>
+        Math.round((index * spins) / (MAX_CHART_POINTS - 1)),
+      );
+
+/**
+ * Picks the chart columns out of a line fed one spin at a time. A run that
+ * stopped between two columns shows its final net in the next one.
+ */
+export const createLineSampler = (steps: number[]) => {
+  const sampled: number[] = [];
+  let lastSpin = 0;
+  let lastNet = 0;
+
+  const observe = (spin: number, net: number) => {
+    if (spin === steps[sampled.length]) {
+      sampled.push(net);
+    }
+    lastSpin = spin;
+    lastNet = net;
+  };
+
+  const finish = () => {
+    if (sampled.length < steps.length && steps[sampled.length - 1] !== lastSpin) {
+      sampled.push(lastNet);
+    }
+    return sampled;
+  };
+
+  return { observe, finish };
+};
+
+/** Picks the chart columns out of a full line. */
+export const sampleLine = (points: number[], steps: number[]) => {
+  const sampler = createLineSampler(steps);
+  points.forEach((net, spin) => sampler.observe(spin, net));
+  return sampler.finish();
+};
+
+/**
+ * Plays runs one at a time in seed order. Only the drawn runs keep a line;
+ * everything else is folded into running aggregates as it arrives. A
+ * progressive jackpot carries over from each run to the next, like a pot
+ * shared across a network of machines.
+ */
+export const createRunBatch = ({
+  settings,
+  runCount,
+  baseSeed,
+  withBands,
+  withSummaries,
+}: BatchRequest) => {
+  const totalRuns = Math.max(runCount, 1);
+  const steps = chartSteps(settings.spins);
+  const checkpoints = createCheckpointAggregate(steps.length, withBands);
+  const jackpot = createSharedJackpot(settings, settings.spins * totalRuns);
+  const displayLines: SimulationLine[] = [];
+  const runSummaries: SimulationSummary[] | null = withSummaries ? [] : null;
+  const tail: TailTotals = {
+    count: 0,
+    totalFinal: 0,
+    winSpins: 0,
+    lossSpins: 0,
+    spinsPlayed: 0,
+    spinsUnderwater: 0,
+    drawdownTotal: 0,
+    worstDrawdown: 0,
+    drawdownSpinsTotal: 0,
+    longestDrawdownSpins: 0,
+    peakSpinTotal: 0,
+    spinStdDevTotal: 0,
+    longestWinStreak: 0,
+    longestLossStreak: 0,
+    totalStaked: 0,
+    bonusPaid: 0,
+    bonusRounds: 0,
+  };
+  const exitTotals = new Map<SessionExit, ExitTotal>();
+  const pocketCounts = new Map<number, number>();
+  const finalCounts = createBucketedCounts();
+  let pocketHistory: number[] = [];
+  let totalFinal = 0;
+  let bustCount = 0;
+  let completedRuns = 0;
+
+  const runNext = () => {
+    const index = completedRuns;
+    const sampler = createLineSampler(steps);
+    const result = runSimulation(settings, createSeededRandom(seedForIndex(baseSeed, index)), {
+      recordPoints: false,
+      onSpin: sampler.observe,
+      jackpot: jackpot ?? undefined,
+    });
+    const { summary } = result;
+    const sampled = sampler.finish();
+
+    checkpoints.addRun(sampled);
+
+    if (summary.bustSpin !== null) {
+      bustCount += 1;
+    }
+
+    for (const pocket of result.pockets ?? []) {
+      pocketCounts.set(pocket, (pocketCounts.get(pocket) ?? 0) + 1);
+    }
+    if (index === 0) {
+      pocketHistory = (result.pockets ?? []).slice(-POCKET_HISTORY_LENGTH);
+    }
+
+    const exitTotal = exitTotals.get(summary.exitReason) ?? { count: 0, totalNet: 0 };
+    exitTotal.count += 1;
+    exitTotal.totalNet += summary.finalNet;
+    exitTotals.set(summary.exitReason, exitTotal);
+
+    if (index < MAX_DISPLAY_RUNS) {
+      displayLines.push({ points: sampled, summary, bonusSpins: result.bonusSpins });
+    } else {
+      tail.count += 1;
+      tail.totalFinal += summary.finalNet;
+      tail.winSpins += summary.totalWinSpins;
+      tail.lossSpins += summary.totalLosingSpins;
+      tail.spinsPlayed += summary.spinsPlayed;
+      tail.spinsUnderwater += summary.spinsUnderwater;
+      tail.drawdownTotal += summary.maxDrawdown;
+      tail.worstDrawdown = Math.max(tail.worstDrawdown, summary.maxDrawdown);
+      tail.drawdownSpinsTotal += summary.maxDrawdownSpins;
+      tail.longestDrawdownSpins = Math.max(tail.longestDrawdownSpins, summary.maxDrawdownSpins);
+      tail.peakSpinTotal += summary.peakSpin;
+      tail.spinStdDevTotal += summary.spinStdDev;
+      tail.longestWinStreak = Math.max(tail.longestWinStreak, summary.longestWinStreak);
+      tail.longestLossStreak = Math.max(tail.longestLossStreak, summary.longestLossStreak);
+      tail.totalStaked += summary.totalStaked;
+      tail.bonusPaid += summary.bonusPaid;
+      tail.bonusRounds += summary.bonusRounds;
+    }
+
+    runSummaries?.push(summary);
+    finalCounts.add(summary.finalNet);
+    totalFinal += summary.finalNet;
+    completedRuns += 1;
+  };
+
+  const snapshot = (): BatchResult => {
+    const { mean, min, max, bands } = checkpoints.snapshot();
+
+    return {
+      completedRuns,
+      totalRuns,
+      steps,
+      meanLine: mean,
+      extremes: { min, max },
+      displayLines: [...displayLines],
+      tail: { ...tail },
+      totalFinal,
+      bustCount,
+      exitTotals: new Map(exitTotals),
+      pocketCounts: new Map(pocketCounts),
+      pocketHistory,
+      finalCounts: finalCounts.counts(),
+      percentileBands: bands,
+      jackpot: jackpot?.snapshot() ?? null,
+      runSummaries: completedRuns >= totalRuns ? runSummaries : null,
+    };
+  };
+
+  return {
+    isDone: () => completedRuns >= totalRuns,
+    runNext,
+    snapshot,
+  };
+};
@@ -0,0 +1,176 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ComparisonRequest, ComparisonResult } from './comparison';
+import type { BatchRequest, BatchResult } from './run-batch';
+import type { TheoryRequest, TheoryResult } from './theory';
+
+type Progress = { completedRuns: number; totalRuns: number };
+
+const WORKER_CRASHED = 'The worker stopped unexpectedly.';
+const RESULT_UNREADABLE = 'The worker sent back a result that could not be read.';
+
+/** What a worker error event says went wrong, without the console also reporting it as uncaught. */
+const describeWorkerError = (event: ErrorEvent) => {
+  event.preventDefault();
+  return event.message || WORKER_CRASHED;
+};
+
+/**
+ * Plays a request in a fresh worker and streams its snapshots. The previous
+ * result stays available, flagged `stale`, until the new request reports
+ * back; a null request starts nothing and clears it. If the worker fails,
+ * `error` says why and the run stops.
+ */
+function useWorkerRuns<Request, Result extends Progress>(
+  request: Request | null,
+  createWorker: () => Worker,
+) {
+  const [answer, setAnswer] = useState<{ request: Request; result: Result } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (request === null) {
+      setAnswer(null);
+      setRunning(false);
+      setProgress(0);
+      return;
+    }
+
+    const worker = createWorker();
+    workerRef.current = worker;
+    setRunning(true);
+    setProgress(0);
+
+    const fail = (message: string) => {
+      worker.terminate();
+      setRunning(false);
+      setError(message);
+    };
+
+    worker.onmessage = (event: MessageEvent<Result>) => {
+      setAnswer({ request, result: event.data });
+      setProgress(event.data.completedRuns / event.data.totalRuns);
+      if (event.data.completedRuns >= event.data.totalRuns) {
+        worker.terminate();
+        setRunning(false);
+      }
+    };
+    worker.onerror = (event) => fail(describeWorkerError(event));
+    worker.onmessageerror = () => fail(RESULT_UNREADABLE);
+    worker.postMessage(request);
+
+    return () => {
+      worker.terminate();
+      setRunning(false);
+    };
+  }, [request, createWorker]);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    setRunning(false);
+  }, []);
+
+  return {
+    result: answer?.result ?? null,
+    stale: answer !== null && answer.request !== request,
+    running,
+    progress,
+    error,
+    cancel,
+  };
+}
+
+// Bundlers only split out a worker when `new URL` sits right inside `new Worker`.
+const createSimulationWorker = () =>
+  new Worker(new URL('./simulation.worker.ts', import.meta.url));
+const createComparisonWorker = () =>
+  new Worker(new URL('./comparison.worker.ts', import.meta.url));
+const createTheoryWorker = () => new Worker(new URL('./theory.worker.ts', import.meta.url));
+
+export function useSimulationRuns(request: BatchRequest) {
+  return useWorkerRuns<BatchRequest, BatchResult>(request, createSimulationWorker);
+}
+
+/** Plays a comparison in a worker; pass null while fewer than two setups are picked. */
+export function useComparisonRuns(request: ComparisonRequest | null) {
+  return useWorkerRuns<ComparisonRequest, ComparisonResult>(request, createComparisonWorker);
+}
+
+/**
+ * Works out the theory for a setup in one worker that lives as long as the
+ * page. While it is busy only the newest request waits, so dragging a slider
+ * does not queue up a backlog. The last answer stays available, flagged
+ * `pending`, until the answer for the current request arrives. A request the
+ * worker fails on is reported in `error`, and a crashed worker is replaced.
+ */
+export function useTheory(request: TheoryRequest) {
+  const [answer, setAnswer] = useState<{ request: TheoryRequest; result: TheoryResult } | null>(
+    null,
+  );
+  const [failure, setFailure] = useState<{ request: TheoryRequest; message: string } | null>(
+    null,
+  );
+  const workerRef = useRef<Worker | null>(null);
+  const inFlightRef = useRef<TheoryRequest | null>(null);
+  const waitingRef = useRef<TheoryRequest | null>(null);
+
+  useEffect(() => {
+    const sendWaiting = () => {
+      inFlightRef.current = waitingRef.current;
+      waitingRef.current = null;
+      if (inFlightRef.current) {
+        workerRef.current?.postMessage(inFlightRef.current);
+      }
+    };
+
+    const fail = (message: string, restart: boolean) => {
+      setFailure({ request: inFlightRef.current!, message });
+      if (restart) {
+        workerRef.current?.terminate();
+        startWorker();
+      }
+      sendWaiting();
+    };
+
+    const startWorker = () => {
+      const worker = createTheoryWorker();
+      workerRef.current = worker;
+      worker.onmessage = (event: MessageEvent<TheoryResult>) => {
+        setAnswer({ request: inFlightRef.current!, result: event.data });
+        sendWaiting();
+      };
+      worker.onerror = (event) => fail(describeWorkerError(event), true);
+      worker.onmessageerror = () => fail(RESULT_UNREADABLE, false);
+    };
+
+    startWorker();
+
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      inFlightRef.current = null;
+      waitingRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (inFlightRef.current) {
+      waitingRef.current = request;
+    } else {
+      inFlightRef.current = request;
+      workerRef.current?.postMessage(request);
+    }
+  }, [request]);
+
+  return {
+    stats: answer?.result.stats ?? null,
+    distribution: answer?.result.distribution ?? null,
+    pending: answer?.request !== request && failure?.request !== request,
+    error: failure?.request === request ? failure.message : null,
+  };
+}
@@ -1,85 +1,303 @@
-export type MachineType = "slot" | "roulette";
+import { betUnits, createBaccaratTable, estimateCoupDistribution } from "./baccarat";
+import type { BaccaratBets, BaccaratVariant } from "./baccarat";
+import { createBlackjackTable, estimateRoundDistribution } from "./blackjack";
+import type { BlackjackRules } from "./blackjack";
+import { createCrapsTable, estimateRollDistribution } from "./craps";
+import type { CrapsBets } from "./craps";
+import { createVideoPokerMachine, estimateHandDistribution } from "./video-poker";
+import type { VideoPokerPaytable } from "./video-poker";
+import { createBettingStrategy } from "./strategies";
+import type { BettingStrategyKind, SpinRecord } from "./strategies";
+import { createJackpotPot, topOutcome, withPotPay } from "./jackpot";
+import type { JackpotPot, ProgressiveJackpot } from "./jackpot";
+import { outcomeStats, randomFromDistribution } from "./outcomes";
+import type { Outcome, OutcomeStats } from "./outcomes";
+import {
+  analyzeBonus,
+  analyzeMachine,
+  buildStrip,
+  estimateBonusRounds,
+  playBonusRound,
+  spinReels,
+} from "./reels";
+import type { ReelMachine } from "./reels";
+import { layoutDistribution, layoutUnits, spinRoulette } from "./roulette";
+import type { RouletteChip, RouletteVariant } from "./roulette";
+
+export type MachineType =
+  | "slot"
+  | "roulette"
+  | "blackjack"
+  | "craps"
+  | "baccarat"
+  | "video-poker";
 
 export type SlotProfile = "steady" | "balanced" | "volatile";
 
-export type RouletteBet =
-  | "single-number"
-  | "split"
-  | "street"
-  | "dozen"
-  | "even-money";
+/** Whether free spins play when scatters land, or every spin buys straight into them. */
+export type SlotBonusMode = "off" | "triggered" | "bought";
+
+export type SessionExit =
+  | "completed"
+  | "win-target"
+  | "loss-limit"
+  | "spin-limit"
+  | "time-limit"
+  | "bust";
+
+/** Walk-away rules; each limit is `null` when the player ignores it. */
+export interface SessionRules {
+  winTarget: number | null;
+  lossLimit: number | null;
+  maxSpins: number | null;
+  maxMinutes: number | null;
+}
 
 export interface BaseSimulationSettings {
   spins: number;
+  /** Flat stake, and the base unit progressive strategies scale from. */
   betSize: number;
+  strategy: BettingStrategyKind;
+  tableMax: number;
+  /** Cash the player walks in with; `null` models an unlimited bankroll. */
+  startingBankroll: number | null;
+  sessionRules: SessionRules;
+}
+
+/** A user-defined outcome table, simulated directly instead of via reels. */
+export interface CustomSlotProfile {
+  id: string;
+  name: string;
+  outcomes: Outcome[];
 }
 
 export interface SlotSettings extends BaseSimulationSettings {
   machine: "slot";
-  profile: SlotProfile;
+  profile: SlotProfile | CustomSlotProfile;
+  /** Ignored by profiles without a bonus feature. */
+  bonus: SlotBonusMode;
+  /** Pays on base-game spins only, so it sits out when every spin buys the bonus. */
+  jackpot: ProgressiveJackpot | null;
 }
 
 export interface RouletteSettings extends BaseSimulationSettings {
   machine: "roulette";
-  bet: RouletteBet;
+  /** Chips placed each spin; `betSize` is the value of one chip unit. */
+  layout: RouletteChip[];
+  variant: RouletteVariant;
+}
+
+export interface BlackjackSettings extends BaseSimulationSettings {
+  machine: "blackjack";
+  rules: BlackjackRules;
+}
+
+export interface CrapsSettings extends BaseSimulationSettings {
+  machine: "craps";
+  bets: CrapsBets;
+}
+
+export interface BaccaratSettings extends BaseSimulationSettings {
+  machine: "baccarat";
+  /** `betSize` is one unit; each side bet adds another unit to the coup. */
+  bets: BaccaratBets;
+  variant: BaccaratVariant;
+}
+
+export interface VideoPokerSettings extends BaseSimulationSettings {
+  machine: "video-poker";
+  paytable: VideoPokerPaytable;
 }
 
-export type SimulationSettings = SlotSettings | RouletteSettings;
+export type SimulationSettings =
+  | SlotSettings
+  | RouletteSettings
+  | BlackjackSettings
+  | CrapsSettings
+  | BaccaratSettings
+  | VideoPokerSettings;
 
 export interface SimulationSummary {
   totalWinSpins: number;
   totalLosingSpins: number;
+  spinsPlayed: number;
+  /** Bets decided; craps rolls can decide several bets or none. */
+  betsResolved: number;
+  totalStaked: number;
+  /** Paid by slot bonus rounds, in dollars; the rest came from the base game. */
+  bonusPaid: number;
+  bonusRounds: number;
   finalNet: number;
   peak: number;
+  /** Spin at which the net first reached `peak`. */
+  peakSpin: number;
+  /** Lowest net of the session. */
   trough: number;
-  volatility: number;
+  /** Largest fall from a running high, in dollars. */
+  maxDrawdown: number;
+  /** Spins from the high before the largest fall until it was regained, or the session ended. */
+  maxDrawdownSpins: number;
+  /** Standard deviation of a single spin's net result, in dollars. */
+  spinStdDev: number;
+  /** Spins that ended with the player behind. */
+  spinsUnderwater: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  /** Spin count at which the player could no longer cover the bet, if ever. */
+  bustSpin: number | null;
+  exitReason: SessionExit;
+}
+
+export interface ExpectationBands {
+  mean: number[];
+  upper1: number[];
+  lower1: number[];
+  upper2: number[];
+  lower2: number[];
+}
+
+export interface PercentileBands {
+  p5: number[];
+  p25: number[];
+  p50: number[];
+  p75: number[];
+  p95: number[];
 }
 
 export interface SimulationLine {
+  /** Net after every spin, starting at 0; empty when spins were streamed instead. */
   points: number[];
   summary: SimulationSummary;
+  /** Winning pocket id of every wheel spin, En Prison release spins included (roulette only). */
+  pockets?: number[];
+  /** Spins, counted from 1, that played a bonus round (slots only). */
+  bonusSpins?: number[];
 }
 
-interface Outcome {
-  probability: number;
-  multiplier: number;
-}
+const centreLines = [[1, 1, 1]];
+const rowLines = [[1, 1, 1], [0, 0, 0], [2, 2, 2]];
+const rowAndDiagonalLines = [...rowLines, [0, 1, 2], [2, 1, 0]];
+
+const slotMachines: Record<SlotProfile, ReelMachine> = {
+  steady: {
+    rows: 3,
+    paylines: rowAndDiagonalLines,
+    reels: [
+      buildStrip({ cherry: 3, lemon: 5, bell: 3, bar: 12, seven: 1, wild: 1, blank: 3 }),
+      buildStrip({ cherry: 3, lemon: 8, bell: 4, bar: 5, seven: 4, wild: 2, blank: 7 }),
+      buildStrip({ cherry: 3, lemon: 2, bell: 6, bar: 2, seven: 1, wild: 2, blank: 4 }),
+    ],
+    paytable: {
+      cherry: [1, 2, 4],
+      lemon: [0, 2, 5],
+      bell: [0, 0, 10],
+      bar: [0, 0, 20],
+      seven: [0, 0, 50],
+      wild: [0, 0, 100],
+    },
+    scatterPays: [],
+  },
+  balanced: {
+    rows: 3,
+    paylines: rowLines,
+    reels: [
+      buildStrip({ cherry: 3, lemon: 5, bell: 3, bar: 6, seven: 2, wild: 1, scatter: 2, blank: 6 }),
+      buildStrip({ cherry: 5, lemon: 5, bell: 4, bar: 3, seven: 2, wild: 1, scatter: 1, blank: 6 }),
+      buildStrip({ cherry: 4, lemon: 6, bell: 5, bar: 2, seven: 2, wild: 1, scatter: 1, blank: 5 }),
+    ],
+    paytable: {
+      cherry: [1, 3, 10],
+      lemon: [0, 0, 10],
+      bell: [0, 0, 20],
+      bar: [0, 0, 50],
+      seven: [0, 0, 150],
+      wild: [0, 0, 300],
+    },
+    scatterPays: [0, 0, 5, 20],
+    bonus: {
+      triggerScatters: 3,
+      freeSpins: 8,
+      retriggerSpins: 8,
+      multiplier: 2,
+      buyCost: 16,
+    },
+  },
+  volatile: {
+    rows: 3,
+    paylines: centreLines,
+    reels: [
+      buildStrip({ cherry: 5, lemon: 7, bell: 5, bar: 1, seven: 3, wild: 1, scatter: 3, blank: 7 }),
+      buildStrip({ cherry: 5, lemon: 4, bell: 2, bar: 3, seven: 1, wild: 1, blank: 7 }),
+      buildStrip({ cherry: 4, lemon: 5, bell: 3, bar: 3, seven: 1, wild: 2, scatter: 1, blank: 6 }),
+    ],
+    paytable: {
+      cherry: [0.5, 2, 5],
+      lemon: [0, 0.5, 10],
+      bell: [0, 0, 20],
+      bar: [0, 0, 50],
+      seven: [0, 0, 200],
+      wild: [0, 0, 1000],
+    },
+    scatterPays: [0, 0, 10, 50],
+  },
+};
+
+export const slotMachineFor = (profile: SlotProfile) => slotMachines[profile];
 
-const slotProfiles: Record<SlotProfile, Outcome[]> = {
-  steady: [
-    { probability: 0.336, multiplier: 0 },
-    { probability: 0.25, multiplier: 0.5 },
-    { probability: 0.2, multiplier: 1 },
-    { probability: 0.1, multiplier: 1.5 },
-    { probability: 0.07, multiplier: 2 },
-    { probability: 0.032, multiplier: 5 },
-    { probability: 0.011, multiplier: 10 },
-    { probability: 0.001, multiplier: 20 },
-  ],
-  balanced: [
-    { probability: 0.5937, multiplier: 0 },
-    { probability: 0.1, multiplier: 0.5 },
-    { probability: 0.15, multiplier: 1 },
-    { probability: 0.09, multiplier: 2 },
-    { probability: 0.049, multiplier: 5 },
-    { probability: 0.015, multiplier: 10 },
-    { probability: 0.002, multiplier: 50 },
-    { probability: 0.0003, multiplier: 100 },
-  ],
-
-
-  
-  volatile: [
-    { probability: 0.769425, multiplier: 0 },
-    { probability: 0.1, multiplier: 0.5 },
-    { probability: 0.05, multiplier: 1 },
-    { probability: 0.04, multiplier: 2 },
-    { probability: 0.02, multiplier: 5 },
-    { probability: 0.015, multiplier: 10 },
-    { probability: 0.003, multiplier: 50 },
-    { probability: 0.0025, multiplier: 100 },
-    { probability: 0.000075, multiplier: 1000 },
-  ],
+export const slotMachineStats = (profile: SlotProfile) =>
+  analyzeMachine(slotMachines[profile]);
+
+export const slotBonusModeLabels: Record<SlotBonusMode, string> = {
+  off: "Base game only",
+  triggered: "Free spins on scatters",
+  bought: "Buy every bonus",
+};
+
+/** The bonus mode a spin actually plays; custom and bonus-less profiles stay in the base game. */
+const activeBonusMode = (settings: SlotSettings): SlotBonusMode =>
+  typeof settings.profile !== "string" || !slotMachines[settings.profile].bonus
+    ? "off"
+    : settings.bonus;
+
+const activeJackpot = (settings: SlotSettings) =>
+  activeBonusMode(settings) === "bought" ? null : settings.jackpot;
+
+const baseOutcomes = ({ profile }: SlotSettings) =>
+  typeof profile === "string" ? analyzeMachine(slotMachines[profile]).outcomes : profile.outcomes;
+
+/** The top base-game pay, which a progressive pot replaces; null off the slots. */
+export const slotTopOutcome = (settings: SimulationSettings): Outcome | null =>
+  settings.machine === "slot" ? topOutcome(baseOutcomes(settings)) : null;
+
+/** A pot for every run of one experiment to feed, when the settings play a jackpot. */
+export const createSharedJackpot = (settings: SimulationSettings, plannedSpins: number) => {
+  const jackpot = settings.machine === "slot" ? activeJackpot(settings) : null;
+  return jackpot ? createJackpotPot(jackpot, plannedSpins) : null;
+};
+
+export const sessionExitLabels: Record<SessionExit, string> = {
+  completed: "Played every spin",
+  "win-target": "Hit win target",
+  "loss-limit": "Hit loss limit",
+  "spin-limit": "Spin limit",
+  "time-limit": "Out of time",
+  bust: "Went broke",
+};
+
+export const spinsPerMinute: Record<MachineType, number> = {
+  slot: 10,
+  roulette: 1,
+  blackjack: 1,
+  craps: 2,
+  baccarat: 1,
+  "video-poker": 10,
+};
+
+export const noSessionRules: SessionRules = {
+  winTarget: null,
+  lossLimit: null,
+  maxSpins: null,
+  maxMinutes: null,
 };
 
 export const slotProfileLabels: Record<SlotProfile, string> = {
@@ -88,190 +306,552 @@ export const slotProfileLabels: Record<SlotProfile, string> = {
   volatile: "Volatile (high variance)",
 };
 
-interface RouletteBetDefinition {
-  probability: number;
-  multiplier: number;
-  label: string;
+/**
+ * A spin that may leave bets working; `settled` counts the bets it decided.
+ * `bonusPayout` is the share of the payout won in a bonus round.
+ */
+interface SettledSpin {
+  payout: number;
+  settled: number;
+  bonusPayout?: number;
+  /** Money actually bet on the spin, when that is not the stake. */
+  wagered?: number;
 }
 
-export const rouletteBets: Record<RouletteBet, RouletteBetDefinition> = {
-  "single-number": {
-    probability: 1 / 37,
-    multiplier: 36,
-    label: "Single Number (35:1)",
-  },
-  split: {
-    probability: 2 / 37,
-    multiplier: 18,
-    label: "Split (17:1)",
-  },
-  street: {
-    probability: 3 / 37,
-    multiplier: 12,
-    label: "Street (11:1)",
-  },
-  dozen: {
-    probability: 12 / 37,
-    multiplier: 3,
-    label: "Dozen (2:1)",
-  },
-  "even-money": {
-    probability: 18 / 37,
-    multiplier: 2,
-    label: "Red / Black (1:1)",
-  },
-};
-
-const randomFromDistribution = (outcomes: Outcome[], rand: () => number) => {
-  const roll = rand();
-  let cumulative = 0;
-
-  for (const outcome of outcomes) {
-    cumulative += outcome.probability;
-    if (roll <= cumulative) {
-      return outcome.multiplier;
-    }
-  }
-
-  return outcomes[outcomes.length - 1]?.multiplier ?? 0;
-};
+/**
+ * Returns the payout of one spin, or a `SettledSpin` when a spin can decide
+ * other than one bet. `available` is the cash on hand for extra wagers
+ * mid-spin, such as a double.
+ */
+type SpinResolver = (
+  stake: number,
+  rand: () => number,
+  available: number,
+) => number | SettledSpin;
+
+export interface RunOptions {
+  /** Keep every net in `points`. Defaults to true. */
+  recordPoints?: boolean;
+  /** Called with the net before the first spin (spin 0) and after each spin. */
+  onSpin?: (spin: number, net: number) => void;
+  /** The pot a slot jackpot pays from; without one each run starts a fresh pot at its seed. */
+  jackpot?: JackpotPot;
+}
 
-const simulateSlot = (settings: SlotSettings, rand: () => number): SimulationLine => {
-  const { spins, betSize, profile } = settings;
-  const outcomes = slotProfiles[profile];
+const playSession = (
+  settings: SimulationSettings,
+  rand: () => number,
+  resolveSpin: SpinResolver,
+  { recordPoints = true, onSpin }: RunOptions = {},
+): SimulationLine => {
+  const { spins, betSize, startingBankroll, strategy, tableMax, sessionRules } =
+    settings;
+  const { winTarget, lossLimit, maxSpins, maxMinutes } = sessionRules;
+  const timeLimitSpins =
+    maxMinutes === null
+      ? null
+      : Math.floor(maxMinutes * spinsPerMinute[settings.machine]);
+  const bettor = createBettingStrategy(strategy, { baseUnit: betSize, tableMax });
+  const history: SpinRecord[] = [];
 
   let net = 0;
   let peak = 0;
   let trough = 0;
   let winSpins = 0;
   let loseSpins = 0;
-  const points: number[] = [0];
+  let bustSpin: number | null = null;
+  let exitReason: SessionExit = "completed";
+  let spinsPlayed = 0;
+  let betsResolved = 0;
+  let totalStaked = 0;
+  let bonusPaid = 0;
+  let bonusRounds = 0;
+  let peakSpin = 0;
+  let highWater = 0;
+  let highWaterSpin = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownStart = 0;
+  let maxDrawdownSpins = 0;
+  let spinsUnderwater = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  // Welford's running mean and squared deviation of the per-spin change.
+  let changeMean = 0;
+  let changeSquares = 0;
+  const points: number[] = recordPoints ? [0] : [];
+  onSpin?.(0, 0);
+
+  const canCover = () =>
+    startingBankroll === null || startingBankroll + net >= betSize;
 
   for (let i = 0; i < spins; i++) {
-    const multiplier = randomFromDistribution(outcomes, rand);
-    const payout = betSize * multiplier;
-    const change = payout - betSize;
+    if (maxSpins !== null && i >= maxSpins) {
+      exitReason = "spin-limit";
+      break;
+    }
+    if (timeLimitSpins !== null && i >= timeLimitSpins) {
+      exitReason = "time-limit";
+      break;
+    }
+    if (!canCover()) {
+      bustSpin = i;
+      exitReason = "bust";
+      break;
+    }
 
-    if (change > 0) {
+    // Progressions that outgrow the bankroll go all-in with what is left.
+    const requested = bettor.nextStake(history);
+    const stake =
+      startingBankroll === null
+        ? requested
+        : Math.min(requested, startingBankroll + net);
+    const available = startingBankroll === null ? Infinity : startingBankroll + net;
+    const resolved = resolveSpin(stake, rand, available);
+    const { payout, settled, bonusPayout, wagered = stake } =
+      typeof resolved === "number" ? { payout: resolved, settled: 1 } : resolved;
+    const change = payout - stake;
+    history.push({ stake, payout });
+    betsResolved += settled;
+    totalStaked += wagered;
+    if (bonusPayout !== undefined) {
+      bonusPaid += bonusPayout;
+      bonusRounds += 1;
+    }
+
+    // A spin that decided nothing is neither a win nor a loss, nor breaks a streak.
+    if (settled > 0 && change > 0) {
       winSpins += 1;
-    } else {
+      winStreak += 1;
+      lossStreak = 0;
+    } else if (settled > 0) {
       loseSpins += 1;
+      lossStreak += 1;
+      winStreak = 0;
     }
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
 
+    const wasUnderHighWater = net < highWater;
     net += change;
-    peak = Math.max(peak, net);
+    spinsPlayed += 1;
+    const delta = change - changeMean;
+    changeMean += delta / spinsPlayed;
+    changeSquares += delta * (change - changeMean);
+
+    if (net > peak) {
+      peak = net;
+      peakSpin = spinsPlayed;
+    }
     trough = Math.min(trough, net);
-    points.push(net);
+    if (net < 0) {
+      spinsUnderwater += 1;
+    }
+
+    if (net >= highWater) {
+      if (wasUnderHighWater && maxDrawdownStart === highWaterSpin) {
+        maxDrawdownSpins = spinsPlayed - highWaterSpin;
+      }
+      highWater = net;
+      highWaterSpin = spinsPlayed;
+    } else if (highWater - net > maxDrawdown) {
+      maxDrawdown = highWater - net;
+      maxDrawdownStart = highWaterSpin;
+    }
+    if (recordPoints) {
+      points.push(net);
+    }
+    onSpin?.(spinsPlayed, net);
+
+    if (winTarget !== null && net >= winTarget) {
+      exitReason = "win-target";
+      break;
+    }
+    if (lossLimit !== null && net <= -lossLimit) {
+      exitReason = "loss-limit";
+      break;
+    }
   }
 
-  const mean = points.reduce((acc, value) => acc + value, 0) / points.length;
-  const variance =
-    points.reduce((acc, value) => acc + Math.pow(value - mean, 2), 0) /
-    points.length;
+  // A drawdown still open at the end lasts until the player walked away.
+  if (net < highWater && maxDrawdownStart === highWaterSpin) {
+    maxDrawdownSpins = spinsPlayed - highWaterSpin;
+  }
+
+  // A player who ends the final spin unable to cover another bet is broke too.
+  if (bustSpin === null && !canCover()) {
+    bustSpin = spinsPlayed;
+    if (exitReason === "completed") {
+      exitReason = "bust";
+    }
+  }
 
   return {
     points,
     summary: {
       totalWinSpins: winSpins,
       totalLosingSpins: loseSpins,
+      spinsPlayed,
+      betsResolved,
+      totalStaked,
+      bonusPaid,
+      bonusRounds,
       finalNet: net,
       peak,
+      peakSpin,
       trough,
-      volatility: Math.sqrt(variance),
+      maxDrawdown,
+      maxDrawdownSpins,
+      spinStdDev: spinsPlayed > 0 ? Math.sqrt(changeSquares / spinsPlayed) : 0,
+      spinsUnderwater,
+      longestWinStreak,
+      longestLossStreak,
+      bustSpin,
+      exitReason,
     },
   };
 };
 
+const simulateSlot = (
+  settings: SlotSettings,
+  rand: () => number,
+  options?: RunOptions,
+): SimulationLine => {
+  const { profile } = settings;
+  const jackpot = activeJackpot(settings);
+  const top = jackpot && topOutcome(baseOutcomes(settings));
+  const pot = jackpot && (options?.jackpot ?? createJackpotPot(jackpot, settings.spins));
+
+  /** Base-game pay, with the top outcome paying whatever the pot holds. */
+  const basePay = (stake: number, multiplier: number) => {
+    if (!pot || !top) {
+      return stake * multiplier;
+    }
+    pot.feed(stake);
+    return multiplier === top.multiplier ? pot.claim() : stake * multiplier;
+  };
+
+  if (typeof profile !== "string") {
+    return playSession(
+      settings,
+      rand,
+      (stake, spinRand) => basePay(stake, randomFromDistribution(profile.outcomes, spinRand)),
+      options,
+    );
+  }
+
+  const machine = slotMachines[profile];
+  const mode = activeBonusMode(settings);
+  const bonusSpins: number[] = [];
+  let spin = 0;
+
+  if (mode === "bought") {
+    const { buyCost } = machine.bonus!;
+    // Each spin is one bought round, so the stake is the buy price.
+    const sessionSettings = { ...settings, betSize: stakePerSpin(settings) };
+    const line = playSession(sessionSettings, rand, (stake, spinRand) => {
+      spin += 1;
+      bonusSpins.push(spin);
+      const bonusPayout = (stake * playBonusRound(machine, spinRand).total) / buyCost;
+      return { payout: bonusPayout, settled: 1, bonusPayout };
+    }, options);
+    return { ...line, bonusSpins };
+  }
+
+  const line = playSession(settings, rand, (stake, spinRand) => {
+    spin += 1;
+    const result = spinReels(machine, spinRand);
+    const payout = basePay(stake, result.multiplier);
+    if (mode === "off" || !result.triggersBonus) {
+      return payout;
+    }
+
+    bonusSpins.push(spin);
+    const bonusPayout = stake * playBonusRound(machine, spinRand).total;
+    return { payout: payout + bonusPayout, settled: 1, bonusPayout };
+  }, options);
+  return mode === "off" ? line : { ...line, bonusSpins };
+};
+
 const simulateRoulette = (
   settings: RouletteSettings,
   rand: () => number,
+  options?: RunOptions,
 ): SimulationLine => {
-  const { spins, betSize, bet } = settings;
-  const betDefinition = rouletteBets[bet];
+  const { layout, variant } = settings;
+  const pockets: number[] = [];
+  // The session wagers the whole layout, so progressions scale every chip.
+  const sessionSettings = { ...settings, betSize: stakePerSpin(settings) };
+
+  const line = playSession(sessionSettings, rand, (stake, spinRand) => {
+    const spin = spinRoulette(layout, variant, stake, spinRand);
+    pockets.push(spin.pocket);
+    if (spin.released !== null) {
+      pockets.push(spin.released);
+    }
+    return spin.payout;
+  }, options);
 
-  let net = 0;
-  let peak = 0;
-  let trough = 0;
-  let winSpins = 0;
-  let loseSpins = 0;
-  const points: number[] = [0];
+  return { ...line, pockets };
+};
 
-  for (let i = 0; i < spins; i++) {
-    const roll = rand();
-    const win = roll <= betDefinition.probability;
-    const change = win ? betSize * (betDefinition.multiplier - 1) : -betSize;
+const simulateBlackjack = (
+  settings: BlackjackSettings,
+  rand: () => number,
+  options?: RunOptions,
+): SimulationLine => {
+  // One shoe lasts the whole session, so rounds share its depletion.
+  const table = createBlackjackTable(settings.rules, rand);
+
+  return playSession(
+    settings,
+    rand,
+    (stake, _spinRand, available) => ({ ...table.playRound(stake, available), settled: 1 }),
+    options,
+  );
+};
 
-    if (win) {
-      winSpins += 1;
-    } else {
-      loseSpins += 1;
-    }
+const simulateCraps = (
+  settings: CrapsSettings,
+  rand: () => number,
+  options?: RunOptions,
+): SimulationLine => {
+  const table = createCrapsTable(settings.bets, rand);
+
+  return playSession(
+    settings,
+    rand,
+    (stake, _spinRand, available) => table.playRoll(stake, available),
+    options,
+  );
+};
 
-    net += change;
-    peak = Math.max(peak, net);
-    trough = Math.min(trough, net);
-    points.push(net);
-  }
+const simulateBaccarat = (
+  settings: BaccaratSettings,
+  rand: () => number,
+  options?: RunOptions,
+): SimulationLine => {
+  const table = createBaccaratTable(settings.bets, settings.variant, rand);
+  // Side bets ride on every coup, so progressions scale them with the main bet.
+  const sessionSettings = { ...settings, betSize: stakePerSpin(settings) };
 
-  const mean = points.reduce((acc, value) => acc + value, 0) / points.length;
-  const variance =
-    points.reduce((acc, value) => acc + Math.pow(value - mean, 2), 0) /
-    points.length;
+  return playSession(sessionSettings, rand, (stake) => table.playRound(stake), options);
+};
 
-  return {
-    points,
-    summary: {
-      totalWinSpins: winSpins,
-      totalLosingSpins: loseSpins,
-      finalNet: net,
-      peak,
-      trough,
-      volatility: Math.sqrt(variance),
-    },
-  };
+const simulateVideoPoker = (
+  settings: VideoPokerSettings,
+  rand: () => number,
+  options?: RunOptions,
+): SimulationLine => {
+  const machine = createVideoPokerMachine(settings.paytable, rand);
+
+  return playSession(settings, rand, (stake) => machine.playHand(stake).payout, options);
 };
 
 export const runSimulation = (
   settings: SimulationSettings,
   rand: () => number = Math.random,
+  options?: RunOptions,
 ): SimulationLine => {
   if (settings.machine === "slot") {
-    return simulateSlot(settings, rand);
+    return simulateSlot(settings, rand, options);
   }
+  if (settings.machine === "blackjack") {
+    return simulateBlackjack(settings, rand, options);
+  }
+  if (settings.machine === "craps") {
+    return simulateCraps(settings, rand, options);
+  }
+  if (settings.machine === "baccarat") {
+    return simulateBaccarat(settings, rand, options);
+  }
+  if (settings.machine === "video-poker") {
+    return simulateVideoPoker(settings, rand, options);
+  }
+
+  return simulateRoulette(settings, rand, options);
+};
 
-  return simulateRoulette(settings, rand);
+/**
+ * Reel spins one paid spin plays on average, which is what a spin costs to
+ * simulate: a bought bonus plays a whole round of free spins.
+ */
+export const reelSpinsPerSpin = (settings: SimulationSettings) => {
+  if (settings.machine !== "slot" || activeBonusMode(settings) === "off") {
+    return 1;
+  }
+  const { triggerChance, expectedSpins } = analyzeBonus(
+    slotMachines[settings.profile as SlotProfile],
+  )!;
+  return activeBonusMode(settings) === "bought"
+    ? expectedSpins
+    : 1 + triggerChance * expectedSpins;
 };
 
-export const calculateMeanLine = (lines: SimulationLine[]): number[] => {
-  if (lines.length === 0) {
-    return [];
+/** Total wagered on one spin when betting flat. */
+export const stakePerSpin = (settings: SimulationSettings) => {
+  if (settings.machine === "roulette") {
+    return settings.betSize * layoutUnits(settings.layout);
+  }
+  if (settings.machine === "baccarat") {
+    return settings.betSize * betUnits(settings.bets);
   }
+  if (settings.machine === "slot" && activeBonusMode(settings) === "bought") {
+    return settings.betSize * slotMachines[settings.profile as SlotProfile].bonus!.buyCost;
+  }
+  return settings.betSize;
+};
 
-  const maxPoints = Math.max(...lines.map((line) => line.points.length));
-  const meanPoints: number[] = [];
+const ESTIMATE_SEED = 21;
+const estimates = new Map<string, Outcome[]>();
 
-  for (let i = 0; i < maxPoints; i++) {
-    let sum = 0;
-    let count = 0;
+/** Dealt-out estimates are slow, so each set of rules is estimated once. */
+const cachedEstimate = (key: string, estimate: (rand: () => number) => Outcome[]) => {
+  let outcomes = estimates.get(key);
+  if (!outcomes) {
+    outcomes = estimate(createSeededRandom(ESTIMATE_SEED));
+    estimates.set(key, outcomes);
+  }
+  return outcomes;
+};
 
-    for (const line of lines) {
-      if (line.points[i] !== undefined) {
-        sum += line.points[i];
-        count += 1;
-      }
-    }
+/** Adds the round totals onto the base pay of every spin that starts a round. */
+const withBonusRounds = (
+  { outcomes, bonusTriggerOutcomes }: ReturnType<typeof analyzeMachine>,
+  rounds: Outcome[],
+): Outcome[] => {
+  const combined = new Map<number, number>();
+  const add = (multiplier: number, probability: number) => {
+    const key = Math.round(multiplier * 1e6) / 1e6;
+    combined.set(key, (combined.get(key) ?? 0) + probability);
+  };
 
-    meanPoints.push(count > 0 ? sum / count : 0);
+  outcomes.forEach(({ multiplier, probability }) => add(multiplier, probability));
+  bonusTriggerOutcomes.forEach((trigger) => {
+    add(trigger.multiplier, -trigger.probability);
+    rounds.forEach((round) =>
+      add(trigger.multiplier + round.multiplier, trigger.probability * round.probability),
+    );
+  });
+
+  return [...combined]
+    .filter(([, probability]) => probability > 1e-15)
+    .sort((a, b) => a[0] - b[0])
+    .map(([multiplier, probability]) => ({ multiplier, probability }));
+};
+
+/**
+ * Payout distribution of a single spin, in multiples of its stake. Exact for
+ * slots and roulette; blackjack rounds, craps rolls, baccarat coups and video
+ * poker hands are estimated from a fixed deal.
+ */
+export const spinDistribution = (settings: SimulationSettings): Outcome[] => {
+  if (settings.machine === "roulette") {
+    return layoutDistribution(settings.layout, settings.variant);
+  }
+  if (settings.machine === "blackjack") {
+    const { rules } = settings;
+    return cachedEstimate(`blackjack:${JSON.stringify(rules)}`, (rand) =>
+      estimateRoundDistribution(rules, rand),
+    );
+  }
+  if (settings.machine === "craps") {
+    const { bets } = settings;
+    return cachedEstimate(`craps:${JSON.stringify(bets)}`, (rand) =>
+      estimateRollDistribution(bets, rand),
+    );
+  }
+  if (settings.machine === "baccarat") {
+    const { bets, variant } = settings;
+    return cachedEstimate(`baccarat:${variant}:${JSON.stringify(bets)}`, (rand) =>
+      estimateCoupDistribution(bets, variant, rand),
+    );
+  }
+  if (settings.machine === "video-poker") {
+    const { paytable } = settings;
+    return cachedEstimate(`video-poker:${paytable}`, (rand) =>
+      estimateHandDistribution(paytable, rand),
+    );
+  }
+
+  const { profile } = settings;
+  // A jackpot is priced at its seed, the level every experiment starts from.
+  const jackpot = activeJackpot(settings);
+  const top = jackpot && topOutcome(baseOutcomes(settings));
+  const atSeed = (outcomes: Outcome[]) =>
+    jackpot && top ? withPotPay(outcomes, top.multiplier, jackpot.seed, settings.betSize) : outcomes;
+
+  if (typeof profile !== "string") {
+    return atSeed(profile.outcomes);
+  }
+
+  const machine = slotMachines[profile];
+  const mode = activeBonusMode(settings);
+  if (mode === "off") {
+    return atSeed(analyzeMachine(machine).outcomes);
+  }
+
+  const rounds = cachedEstimate(`slot-bonus:${profile}`, (rand) =>
+    estimateBonusRounds(machine, rand),
+  );
+  if (mode === "bought") {
+    const { buyCost } = machine.bonus!;
+    return rounds.map(({ multiplier, probability }) => ({
+      multiplier: multiplier / buyCost,
+      probability,
+    }));
+  }
+  const stats = analyzeMachine(machine);
+  return withBonusRounds(
+    {
+      ...stats,
+      outcomes: atSeed(stats.outcomes),
+      bonusTriggerOutcomes: atSeed(stats.bonusTriggerOutcomes),
+    },
+    rounds,
+  );
+};
+
+export const theoreticalStats = (settings: SimulationSettings): OutcomeStats =>
+  outcomeStats(spinDistribution(settings));
+
+/**
+ * Expected net after each spin of flat betting, with ±1σ and ±2σ envelopes
+ * that widen with the square root of the spin count. Pass `stats` when they
+ * are already known, since working them out can be slow.
+ */
+export const expectationBands = (
+  settings: SimulationSettings,
+  { expectedValue, standardDeviation }: OutcomeStats = theoreticalStats(settings),
+): ExpectationBands => {
+  const stake = stakePerSpin(settings);
+  const bands: ExpectationBands = { mean: [], upper1: [], lower1: [], upper2: [], lower2: [] };
+
+  for (let spin = 0; spin <= settings.spins; spin++) {
+    const mean = spin * expectedValue * stake;
+    const spread = Math.sqrt(spin) * standardDeviation * stake;
+    bands.mean.push(mean);
+    bands.upper1.push(mean + spread);
+    bands.lower1.push(mean - spread);
+    bands.upper2.push(mean + 2 * spread);
+    bands.lower2.push(mean - 2 * spread);
   }
 
-  return meanPoints;
+  return bands;
 };
 
 export const defaultSettings: SimulationSettings = {
   machine: "slot",
   spins: 200,
   betSize: 1,
+  strategy: "flat",
+  tableMax: 1000,
+  startingBankroll: null,
+  sessionRules: noSessionRules,
   profile: "balanced",
+  bonus: "off",
+  jackpot: null,
 };
 
 export const createSeededRandom = (seed: number) => {
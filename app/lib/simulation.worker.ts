@@ -0,0 +1,25 @@
+import { createRunBatch } from "./run-batch";
+import type { BatchRequest } from "./run-batch";
+
+const SNAPSHOT_INTERVAL_MS = 150;
+
+// The run loop is synchronous; the page cancels a batch by terminating us.
+addEventListener("message", (event: MessageEvent<BatchRequest>) => {
+  const batch = createRunBatch(event.data);
+  let interval = SNAPSHOT_INTERVAL_MS;
+  let lastPost = performance.now();
+
+  while (!batch.isDone()) {
+    batch.runNext();
+
+    if (!batch.isDone() && performance.now() - lastPost >= interval) {
+      const started = performance.now();
+      postMessage(batch.snapshot());
+      lastPost = performance.now();
+      // Percentile bands over many runs are slow; keep snapshots a small share of the work.
+      interval = Math.max(SNAPSHOT_INTERVAL_MS, (lastPost - started) * 4);
+    }
+  }
+
+  postMessage(batch.snapshot());
+});
@@ -0,0 +1,187 @@
+export type BettingStrategyKind =
+  | "flat"
+  | "martingale"
+  | "paroli"
+  | "fibonacci"
+  | "dalembert"
+  | "labouchere";
+
+export interface StrategyConfig {
+  baseUnit: number;
+  tableMax: number;
+}
+
+export interface SpinRecord {
+  stake: number;
+  payout: number;
+}
+
+export interface BettingStrategy {
+  nextStake: (history: readonly SpinRecord[]) => number;
+}
+
+interface BettingStrategyDefinition {
+  label: string;
+  description: string;
+  create: (config: StrategyConfig) => BettingStrategy;
+}
+
+type SpinResult = "win" | "loss" | "push";
+
+const resultOf = (record: SpinRecord | undefined): SpinResult | null => {
+  if (!record) {
+    return null;
+  }
+  if (record.payout > record.stake) {
+    return "win";
+  }
+  return record.payout < record.stake ? "loss" : "push";
+};
+
+const lastResult = (history: readonly SpinRecord[]) =>
+  resultOf(history[history.length - 1]);
+
+const PAROLI_STREAK = 3;
+const LABOUCHERE_LINE = [1, 2, 3, 4];
+
+const createFlat = ({ baseUnit }: StrategyConfig): BettingStrategy => ({
+  nextStake: () => baseUnit,
+});
+
+// Progressions step from the stake actually placed, which the table or the
+// bankroll may have capped below what the strategy asked for.
+const createMartingale = ({ baseUnit }: StrategyConfig): BettingStrategy => ({
+  nextStake: (history) => {
+    const last = history[history.length - 1];
+    const result = resultOf(last);
+    if (result === "loss") {
+      return last.stake * 2;
+    }
+    return result === "push" ? last.stake : baseUnit;
+  },
+});
+
+const createParoli = ({ baseUnit }: StrategyConfig): BettingStrategy => {
+  let streak = 0;
+
+  return {
+    nextStake: (history) => {
+      const result = lastResult(history);
+      if (result === "win") {
+        streak = (streak + 1) % PAROLI_STREAK;
+      } else if (result === "loss") {
+        streak = 0;
+      }
+      return baseUnit * Math.pow(2, streak);
+    },
+  };
+};
+
+const createFibonacci = ({ baseUnit }: StrategyConfig): BettingStrategy => {
+  const sequence = [1, 1];
+  let position = 0;
+
+  return {
+    nextStake: (history) => {
+      const result = lastResult(history);
+      if (result === "loss") {
+        position += 1;
+      } else if (result === "win") {
+        position = Math.max(0, position - 2);
+      }
+
+      while (sequence.length <= position) {
+        sequence.push(sequence[sequence.length - 1] + sequence[sequence.length - 2]);
+      }
+
+      return baseUnit * sequence[position];
+    },
+  };
+};
+
+const createDalembert = ({ baseUnit }: StrategyConfig): BettingStrategy => {
+  let units = 1;
+
+  return {
+    nextStake: (history) => {
+      const result = lastResult(history);
+      if (result === "loss") {
+        units += 1;
+      } else if (result === "win") {
+        units = Math.max(1, units - 1);
+      }
+      return baseUnit * units;
+    },
+  };
+};
+
+const createLabouchere = ({ baseUnit }: StrategyConfig): BettingStrategy => {
+  let line = [...LABOUCHERE_LINE];
+
+  const unitsFor = (values: number[]) =>
+    values.length === 1 ? values[0] : values[0] + values[values.length - 1];
+
+  return {
+    nextStake: (history) => {
+      const last = history[history.length - 1];
+      const result = resultOf(last);
+      if (result === "win") {
+        line = line.slice(1, -1);
+      } else if (result === "loss") {
+        line.push(last.stake / baseUnit);
+      }
+
+      // A cleared line means the session target was hit; start a fresh cycle.
+      if (line.length === 0) {
+        line = [...LABOUCHERE_LINE];
+      }
+
+      return baseUnit * unitsFor(line);
+    },
+  };
+};
+
+export const bettingStrategies: Record<BettingStrategyKind, BettingStrategyDefinition> = {
+  flat: {
+    label: "Flat betting",
+    description: "Same stake every spin.",
+    create: createFlat,
+  },
+  martingale: {
+    label: "Martingale",
+    description: "Double after every loss, reset after a win.",
+    create: createMartingale,
+  },
+  paroli: {
+    label: "Paroli (reverse Martingale)",
+    description: `Double after a win, bank it after ${PAROLI_STREAK} in a row.`,
+    create: createParoli,
+  },
+  fibonacci: {
+    label: "Fibonacci",
+    description: "Step up the sequence on a loss, back two on a win.",
+    create: createFibonacci,
+  },
+  dalembert: {
+    label: "D'Alembert",
+    description: "Add a unit after a loss, remove one after a win.",
+    create: createDalembert,
+  },
+  labouchere: {
+    label: "Labouchère",
+    description: "Bet the ends of a 1-2-3-4 line, cross off on wins.",
+    create: createLabouchere,
+  },
+};
+
+export const createBettingStrategy = (
+  kind: BettingStrategyKind,
+  config: StrategyConfig,
+): BettingStrategy => {
+  const strategy = bettingStrategies[kind].create(config);
+
+  return {
+    nextStake: (history) =>
+      Math.min(config.tableMax, strategy.nextStake(history)),
+  };
+};
@@ -0,0 +1,26 @@
+import { finalDistribution } from "./distribution";
+import type { FinalDistribution } from "./distribution";
+import type { OutcomeStats } from "./outcomes";
+import { theoreticalStats } from "./simulation";
+import type { SimulationSettings } from "./simulation";
+
+export interface TheoryRequest {
+  settings: SimulationSettings;
+  /** The exact final distribution only applies to flat bets without session rules. */
+  withDistribution: boolean;
+}
+
+export interface TheoryResult {
+  stats: OutcomeStats;
+  distribution: FinalDistribution | null;
+}
+
+/**
+ * The single-spin statistics and, when asked, the exact final distribution.
+ * Dealt-out games estimate their spin distribution on first use, which is
+ * slow, so this runs in a worker that keeps those estimates between requests.
+ */
+export const computeTheory = ({ settings, withDistribution }: TheoryRequest): TheoryResult => ({
+  stats: theoreticalStats(settings),
+  distribution: withDistribution ? finalDistribution(settings) : null,
+});
@@ -0,0 +1,8 @@
+import { computeTheory } from "./theory";
+import type { TheoryRequest } from "./theory";
+
+// Unlike the batch workers this one lives as long as the page, so the estimate
+// cache in `spinDistribution` carries over from one request to the next.
+addEventListener("message", (event: MessageEvent<TheoryRequest>) => {
+  postMessage(computeTheory(event.data));
+});
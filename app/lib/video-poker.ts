@@ -0,0 +1,645 @@
+import type { Outcome } from "./outcomes";
+
+export type VideoPokerPaytable = "jacks-9-6" | "jacks-8-5" | "deuces-wild";
+
+type VideoPokerGame = "jacks" | "deuces";
+
+export type HandRank =
+  | "royal-flush"
+  | "four-deuces"
+  | "wild-royal"
+  | "five-kind"
+  | "straight-flush"
+  | "four-kind"
+  | "full-house"
+  | "flush"
+  | "straight"
+  | "three-kind"
+  | "two-pair"
+  | "jacks-or-better"
+  | "nothing";
+
+interface PaytableDefinition {
+  label: string;
+  game: VideoPokerGame;
+  /** Coins returned per coin bet, best hand first; a 1 gives the bet back. */
+  pays: [HandRank, number][];
+  /**
+   * The published return under computer-perfect play. It is quoted from the
+   * standard strategy tables, not worked out here; the engine holds by chart,
+   * which gives up a little of it on close calls that hinge on the discards.
+   */
+  publishedOptimalReturn: number;
+}
+
+/** A card is `rank * 4 + suit`, with ranks 2–14 and the ace high. */
+type Card = number;
+
+/** What one held subset of the deal looks like; ranks are bit masks with bit r for rank r. */
+interface Held {
+  size: number;
+  wilds: number;
+  /** Natural (non-wild) ranks held. */
+  rankMask: number;
+  rankCount: number;
+  low: number;
+  high: number;
+  /** The second-highest natural rank, or 0. */
+  belowHigh: number;
+  /** Ranks held exactly twice. */
+  pairMask: number;
+  maxCount: number;
+  suited: boolean;
+  highCards: number;
+}
+
+/** One line of a strategy chart: hold `size` cards that match. */
+interface HoldPattern {
+  size: number;
+  matches: (held: Held) => boolean;
+}
+
+export const handRankLabels: Record<HandRank, string> = {
+  "royal-flush": "Royal flush",
+  "four-deuces": "Four deuces",
+  "wild-royal": "Wild royal flush",
+  "five-kind": "Five of a kind",
+  "straight-flush": "Straight flush",
+  "four-kind": "Four of a kind",
+  "full-house": "Full house",
+  flush: "Flush",
+  straight: "Straight",
+  "three-kind": "Three of a kind",
+  "two-pair": "Two pair",
+  "jacks-or-better": "Jacks or better",
+  nothing: "Nothing",
+};
+
+export const videoPokerPaytables: Record<VideoPokerPaytable, PaytableDefinition> = {
+  "jacks-9-6": {
+    label: "Jacks or Better 9/6",
+    game: "jacks",
+    pays: [
+      ["royal-flush", 800],
+      ["straight-flush", 50],
+      ["four-kind", 25],
+      ["full-house", 9],
+      ["flush", 6],
+      ["straight", 4],
+      ["three-kind", 3],
+      ["two-pair", 2],
+      ["jacks-or-better", 1],
+    ],
+    publishedOptimalReturn: 0.995439,
+  },
+  "jacks-8-5": {
+    label: "Jacks or Better 8/5",
+    game: "jacks",
+    pays: [
+      ["royal-flush", 800],
+      ["straight-flush", 50],
+      ["four-kind", 25],
+      ["full-house", 8],
+      ["flush", 5],
+      ["straight", 4],
+      ["three-kind", 3],
+      ["two-pair", 2],
+      ["jacks-or-better", 1],
+    ],
+    publishedOptimalReturn: 0.972984,
+  },
+  "deuces-wild": {
+    label: "Deuces Wild (full pay)",
+    game: "deuces",
+    pays: [
+      ["royal-flush", 800],
+      ["four-deuces", 200],
+      ["wild-royal", 25],
+      ["five-kind", 15],
+      ["straight-flush", 9],
+      ["four-kind", 5],
+      ["full-house", 3],
+      ["flush", 2],
+      ["straight", 2],
+      ["three-kind", 1],
+    ],
+    publishedOptimalReturn: 1.00762,
+  },
+};
+
+export const defaultVideoPokerPaytable: VideoPokerPaytable = "jacks-9-6";
+
+export const VIDEO_POKER_ESTIMATE_HANDS = 1_000_000;
+
+const ACE = 14;
+const KING = 13;
+const QUEEN = 12;
+const JACK = 11;
+const TEN = 10;
+const DEUCE = 2;
+
+const rankOf = (card: Card) => card >> 2;
+const suitOf = (card: Card) => card & 3;
+
+const rankBits = (...ranks: number[]) => ranks.reduce((bits, rank) => bits | (1 << rank), 0);
+const BELOW_TEN = rankBits(2, 3, 4, 5, 6, 7, 8, 9);
+const TWO_THREE_FOUR = rankBits(2, 3, 4);
+const THREE_FOUR_FIVE = rankBits(3, 4, 5);
+
+const bitCount = (bits: number) => {
+  let count = 0;
+  for (let rest = bits; rest; rest &= rest - 1) {
+    count += 1;
+  }
+  return count;
+};
+
+const rankCounts = new Uint8Array(ACE + 1);
+
+const describe = (cards: Card[], mask: number, game: VideoPokerGame): Held => {
+  let size = 0;
+  let wilds = 0;
+  let suit = -1;
+  let suited = true;
+  let rankMask = 0;
+  let pairMask = 0;
+  let maxCount = 0;
+  let highCards = 0;
+
+  for (let index = 0; index < cards.length; index++) {
+    if (!(mask & (1 << index))) {
+      continue;
+    }
+    size += 1;
+    const rank = rankOf(cards[index]);
+    if (game === "deuces" && rank === DEUCE) {
+      wilds += 1;
+      continue;
+    }
+    const count = (rankMask & (1 << rank) ? rankCounts[rank] : 0) + 1;
+    rankCounts[rank] = count;
+    rankMask |= 1 << rank;
+    pairMask = count === 2 ? pairMask | (1 << rank) : pairMask & ~(1 << rank);
+    maxCount = Math.max(maxCount, count);
+    if (rank >= JACK) {
+      highCards += 1;
+    }
+    if (suit === -1) {
+      suit = suitOf(cards[index]);
+    } else if (suit !== suitOf(cards[index])) {
+      suited = false;
+    }
+  }
+
+  const high = rankMask ? 31 - Math.clz32(rankMask) : 0;
+  const rest = rankMask & ~(1 << high);
+  return {
+    size,
+    wilds,
+    rankMask,
+    rankCount: bitCount(rankMask),
+    low: rankMask ? 31 - Math.clz32(rankMask & -rankMask) : 0,
+    high,
+    belowHigh: rest ? 31 - Math.clz32(rest) : 0,
+    pairMask,
+    maxCount,
+    suited,
+    highCards,
+  };
+};
+
+const distinct = (held: Held) => held.maxCount <= 1;
+
+/** Whether the ace only makes a straight as a one, as in A-3-4. */
+const playsAceLow = (held: Held) => held.high === ACE && held.belowHigh <= 5;
+
+/** Whether the natural ranks fit inside one five-rank straight, counting the ace low too. */
+const fitsStraight = (held: Held) =>
+  distinct(held) && (held.high - held.low <= 4 || playsAceLow(held));
+
+/** Ranks missing inside the span of the held cards; ace-low draws use the ace as 1. */
+const gaps = (held: Held) => {
+  const aceLow = playsAceLow(held);
+  const low = aceLow ? 1 : held.low;
+  const high = aceLow ? held.belowHigh : held.high;
+  return high - low + 1 - held.rankCount;
+};
+
+const royalDraw = (held: Held) => held.suited && distinct(held) && !(held.rankMask & BELOW_TEN);
+
+const straightFlushDraw = (held: Held) => held.suited && fitsStraight(held);
+
+/** Four in a row that a card at either end completes. */
+const outsideStraight = (held: Held, lowest: number) =>
+  distinct(held) &&
+  held.rankCount === 4 &&
+  held.high - held.low === 3 &&
+  held.low >= lowest &&
+  held.high <= KING;
+
+/** Naturals in an unbroken run starting at `lowest` or higher, e.g. 6-7 in Deuces Wild. */
+const connectedFrom = (held: Held, lowest: number) =>
+  held.suited &&
+  distinct(held) &&
+  held.low >= lowest &&
+  held.high - held.low === held.rankCount - 1;
+
+/** Scores a complete five-card hand. */
+const rankHand = (held: Held, game: VideoPokerGame): HandRank => {
+  const { wilds, maxCount, suited } = held;
+  const straight = fitsStraight(held);
+  const pairs = bitCount(held.pairMask);
+
+  if (game === "deuces") {
+    if (wilds === 4) {
+      return "four-deuces";
+    }
+    if (maxCount + wilds >= 5) {
+      return "five-kind";
+    }
+    if (royalDraw(held)) {
+      return wilds === 0 ? "royal-flush" : "wild-royal";
+    }
+    if (suited && straight) {
+      return "straight-flush";
+    }
+    if (maxCount + wilds >= 4) {
+      return "four-kind";
+    }
+    if ((wilds === 0 && maxCount === 3 && pairs === 1) || (wilds === 1 && pairs === 2)) {
+      return "full-house";
+    }
+    if (suited) {
+      return "flush";
+    }
+    if (straight) {
+      return "straight";
+    }
+    return maxCount + wilds >= 3 ? "three-kind" : "nothing";
+  }
+
+  if (royalDraw(held)) {
+    return "royal-flush";
+  }
+  if (suited && straight) {
+    return "straight-flush";
+  }
+  if (maxCount === 4) {
+    return "four-kind";
+  }
+  if (maxCount === 3) {
+    return pairs === 1 ? "full-house" : "three-kind";
+  }
+  if (suited) {
+    return "flush";
+  }
+  if (straight) {
+    return "straight";
+  }
+  if (pairs === 2) {
+    return "two-pair";
+  }
+  return pairs === 1 && held.pairMask >= 1 << JACK ? "jacks-or-better" : "nothing";
+};
+
+const hold = (size: number, matches: (held: Held) => boolean): HoldPattern => ({ size, matches });
+
+const made = (game: VideoPokerGame, ...hands: HandRank[]) =>
+  hold(5, (held) => hands.includes(rankHand(held, game)));
+
+/**
+ * Three-card straight flush draws, ranked as in the published 9/6 strategy:
+ * 1 when high cards cover the gaps, 3 for two gaps and no high cards, 2 for
+ * the rest along with ace-low and 2-3-4.
+ */
+const straightFlushThreeType = (held: Held) => {
+  if (playsAceLow(held) || held.rankMask === TWO_THREE_FOUR) {
+    return 2;
+  }
+  const missing = gaps(held);
+  if (held.highCards >= missing) {
+    return 1;
+  }
+  return missing === 2 && held.highCards === 0 ? 3 : 2;
+};
+
+const threeToStraightFlush = (type: number) =>
+  hold(3, (held) => straightFlushDraw(held) && straightFlushThreeType(held) === type);
+
+const insideStraight = (highCards: number) =>
+  hold(
+    4,
+    (held) => fitsStraight(held) && !outsideStraight(held, DEUCE) && held.highCards === highCards,
+  );
+
+const onlyRanks = (...ranks: number[]) => {
+  const bits = rankBits(...ranks);
+  return hold(ranks.length, (held) => held.rankMask === bits && distinct(held));
+};
+
+const suitedRanks = (...ranks: number[]) => {
+  const { size, matches } = onlyRanks(...ranks);
+  return hold(size, (held) => held.suited && matches(held));
+};
+
+/** The published 9/6 Jacks or Better chart; 8/5 plays almost the same holds. */
+const jacksStrategy: HoldPattern[] = [
+  made("jacks", "royal-flush", "straight-flush"),
+  hold(4, (held) => held.maxCount === 4),
+  hold(4, royalDraw),
+  made("jacks", "full-house", "flush", "straight"),
+  hold(3, (held) => held.maxCount === 3),
+  hold(4, straightFlushDraw),
+  hold(4, (held) => bitCount(held.pairMask) === 2),
+  hold(2, (held) => held.maxCount === 2 && held.low >= JACK),
+  hold(3, royalDraw),
+  hold(4, (held) => held.suited),
+  onlyRanks(TEN, JACK, QUEEN, KING),
+  hold(2, (held) => held.maxCount === 2),
+  hold(4, (held) => outsideStraight(held, DEUCE)),
+  threeToStraightFlush(1),
+  suitedRanks(JACK, QUEEN),
+  insideStraight(4),
+  suitedRanks(QUEEN, KING),
+  suitedRanks(JACK, KING),
+  suitedRanks(JACK, ACE),
+  suitedRanks(QUEEN, ACE),
+  suitedRanks(KING, ACE),
+  insideStraight(3),
+  threeToStraightFlush(2),
+  onlyRanks(JACK, QUEEN, KING),
+  onlyRanks(JACK, QUEEN),
+  suitedRanks(TEN, JACK),
+  onlyRanks(QUEEN, KING),
+  onlyRanks(JACK, KING),
+  suitedRanks(TEN, QUEEN),
+  onlyRanks(JACK, ACE),
+  onlyRanks(QUEEN, ACE),
+  onlyRanks(KING, ACE),
+  onlyRanks(JACK),
+  suitedRanks(TEN, KING),
+  onlyRanks(QUEEN),
+  onlyRanks(KING),
+  onlyRanks(ACE),
+  threeToStraightFlush(3),
+  hold(0, () => true),
+];
+
+const onlyDeuces = (deuces: number) => hold(deuces, (held) => held.wilds === deuces);
+
+/**
+ * Three suited naturals with no deuce. With deuces wild a draw starting at 4 or
+ * higher with at most one gap, or 3-4-5, finishes often enough to rank above
+ * T-J suited; the rest rank below it, and ace-low draws are not worth holding.
+ */
+const naturalStraightFlushThree = (strong: boolean) =>
+  hold(3, (held) => {
+    if (!straightFlushDraw(held) || playsAceLow(held)) {
+      return false;
+    }
+    const isStrong =
+      held.rankMask === THREE_FOUR_FIVE || (held.low >= 4 && held.high - held.low <= 3);
+    return isStrong === strong;
+  });
+
+/**
+ * The published full-pay Deuces Wild chart, one list per number of deuces
+ * dealt. Deuces are always held, so every line below keeps all of them.
+ */
+const deucesStrategy: Record<number, HoldPattern[]> = {
+  4: [onlyDeuces(4)],
+  3: [
+    made("deuces", "wild-royal"),
+    // Three deuces alone are worth more than five of a kind in nines or lower.
+    hold(5, (held) => held.maxCount + held.wilds >= 5 && held.low >= TEN),
+    onlyDeuces(3),
+  ],
+  2: [
+    made("deuces", "wild-royal", "five-kind", "straight-flush"),
+    hold(4, (held) => held.maxCount + held.wilds >= 4),
+    hold(4, royalDraw),
+    hold(4, (held) => connectedFrom(held, 6)),
+    onlyDeuces(2),
+  ],
+  1: [
+    made("deuces", "wild-royal", "five-kind", "straight-flush"),
+    hold(4, (held) => held.maxCount + held.wilds >= 4),
+    hold(4, royalDraw),
+    made("deuces", "full-house"),
+    hold(4, (held) => connectedFrom(held, 5)),
+    made("deuces", "flush", "straight"),
+    hold(3, (held) => held.maxCount + held.wilds >= 3),
+    hold(4, straightFlushDraw),
+    // With an ace the royal draw only beats the lone deuce when no discard
+    // shares its suit or ranks ten to king, which a chart cannot see.
+    hold(3, (held) => royalDraw(held) && held.high < ACE),
+    hold(3, (held) => connectedFrom(held, 6) && held.high < ACE),
+    onlyDeuces(1),
+  ],
+  0: [
+    made("deuces", "royal-flush"),
+    hold(4, royalDraw),
+    made("deuces", "straight-flush"),
+    hold(4, (held) => held.maxCount === 4),
+    made("deuces", "full-house", "flush", "straight"),
+    hold(3, (held) => held.maxCount === 3),
+    hold(4, straightFlushDraw),
+    hold(3, royalDraw),
+    hold(2, (held) => held.maxCount === 2),
+    hold(4, (held) => held.suited),
+    hold(4, (held) => outsideStraight(held, 3)),
+    naturalStraightFlushThree(true),
+    suitedRanks(TEN, JACK),
+    suitedRanks(JACK, QUEEN),
+    suitedRanks(TEN, QUEEN),
+    naturalStraightFlushThree(false),
+    hold(4, (held) => fitsStraight(held) && !playsAceLow(held)),
+    hold(0, () => true),
+  ],
+};
+
+const countDeuces = (cards: Card[]) =>
+  cards.reduce((count, card) => count + (rankOf(card) === DEUCE ? 1 : 0), 0);
+
+const masksBySize = Array.from({ length: 6 }, (_, size) =>
+  Array.from({ length: 32 }, (_, mask) => mask).filter((mask) => bitCount(mask) === size),
+);
+
+const describeSubsets = (cards: Card[], game: VideoPokerGame) => {
+  const helds: Held[] = [];
+  for (let mask = 0; mask < 32; mask++) {
+    helds.push(describe(cards, mask, game));
+  }
+  return helds;
+};
+
+/** Picks which of the five dealt cards to keep, as a bit mask. */
+const chooseHold = (cards: Card[], game: VideoPokerGame) => {
+  const deuces = game === "deuces" ? countDeuces(cards) : 0;
+  const strategy = game === "jacks" ? jacksStrategy : deucesStrategy[deuces];
+  const helds = describeSubsets(cards, game);
+
+  for (let line = 0; line < strategy.length; line++) {
+    const { size, matches } = strategy[line];
+    const candidates = masksBySize[size];
+    for (let index = 0; index < candidates.length; index++) {
+      const held = helds[candidates[index]];
+      // Throwing a deuce away never helps.
+      if (held.wilds === deuces && matches(held)) {
+        return candidates[index];
+      }
+    }
+  }
+  return 0;
+};
+
+const holdCache: Record<VideoPokerGame, Map<number, number>> = {
+  jacks: new Map(),
+  deuces: new Map(),
+};
+
+/**
+ * Deals that differ only in suit names play the same hold, so decisions are
+ * cached by the sorted deal with suits renamed in order of appearance.
+ */
+const cachedHold = (sorted: Card[], game: VideoPokerGame) => {
+  const suitNames = [-1, -1, -1, -1];
+  let named = 0;
+  let key = 0;
+  for (const card of sorted) {
+    const suit = suitOf(card);
+    if (suitNames[suit] === -1) {
+      suitNames[suit] = named++;
+    }
+    key = key * 64 + rankOf(card) * 4 + suitNames[suit];
+  }
+
+  let mask = holdCache[game].get(key);
+  if (mask === undefined) {
+    mask = chooseHold(sorted, game);
+    holdCache[game].set(key, mask);
+  }
+  return mask;
+};
+
+const createDeck = () => {
+  const deck: Card[] = [];
+  for (let rank = DEUCE; rank <= ACE; rank++) {
+    for (let suit = 0; suit < 4; suit++) {
+      deck.push(rank * 4 + suit);
+    }
+  }
+  return deck;
+};
+
+/** Shuffles random cards into `deck[from]` up to `deck[to - 1]`. */
+const shuffleInto = (deck: Card[], from: number, to: number, rand: () => number) => {
+  for (let i = from; i < to; i++) {
+    const j = i + Math.floor(rand() * (deck.length - i));
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+};
+
+/** Deals five cards from the top of a freshly shuffled deck and picks the hold. */
+const deal = (deck: Card[], game: VideoPokerGame, rand: () => number) => {
+  // Only the ten cards a hand can see need shuffling into place.
+  shuffleInto(deck, 0, 10, rand);
+  const dealt = deck.slice(0, 5).sort((a, b) => a - b);
+  return { dealt, kept: cachedHold(dealt, game) };
+};
+
+/** Replaces the discards with the cards after the deal. */
+const draw = (deck: Card[], dealt: Card[], kept: number, game: VideoPokerGame) => {
+  let replacement = 5;
+  const final = dealt.map((card, index) => (kept & (1 << index) ? card : deck[replacement++]));
+  return rankHand(describe(final, 31, game), game);
+};
+
+/**
+ * A machine that shuffles a fresh deck every hand, holds by the chart for the
+ * paytable's game and draws replacements.
+ */
+export const createVideoPokerMachine = (paytable: VideoPokerPaytable, rand: () => number) => {
+  const { game, pays } = videoPokerPaytables[paytable];
+  const payouts = new Map(pays);
+  const deck = createDeck();
+
+  /** Deals and draws one hand; returns the final hand and what `stake` won. */
+  const playHand = (stake: number) => {
+    const { dealt, kept } = deal(deck, game, rand);
+    const hand = draw(deck, dealt, kept, game);
+    return { hand, payout: stake * (payouts.get(hand) ?? 0) };
+  };
+
+  return { playHand };
+};
+
+/** Ways to draw 0–5 replacements from the 47 unseen cards. */
+const drawCombinations = [1, 47, 1081, 16215, 178365, 1533939];
+
+/** Chance that drawing to `kept` ends in a natural royal flush. */
+const royalChance = (dealt: Card[], kept: number) => {
+  let held = 0;
+  let suit = -1;
+  for (let index = 0; index < dealt.length; index++) {
+    if (!(kept & (1 << index))) {
+      continue;
+    }
+    if (rankOf(dealt[index]) < TEN || (suit !== -1 && suitOf(dealt[index]) !== suit)) {
+      return 0;
+    }
+    suit = suitOf(dealt[index]);
+    held += 1;
+  }
+
+  const blocked = (royalSuit: number) =>
+    dealt.some(
+      (card, index) =>
+        !(kept & (1 << index)) && suitOf(card) === royalSuit && rankOf(card) >= TEN,
+    );
+  const open = held > 0 ? (blocked(suit) ? 0 : 1) : [0, 1, 2, 3].filter((s) => !blocked(s)).length;
+  return open / drawCombinations[5 - held];
+};
+
+/**
+ * Hand outcomes in multiples of the bet, estimated by playing
+ * VIDEO_POKER_ESTIMATE_HANDS hands by the chart. Royals are too rare to
+ * count reliably, so each hand adds its exact royal chance and the draw is
+ * sampled from the non-royal finishes; that leaves this within a few hundredths
+ * of a percent of the chart's true return, which sits below `publishedOptimalReturn`.
+ */
+export const estimateHandDistribution = (
+  paytable: VideoPokerPaytable,
+  rand: () => number,
+): Outcome[] => {
+  const { game, pays } = videoPokerPaytables[paytable];
+  const payouts = new Map(pays);
+  const deck = createDeck();
+  const weights = new Map<number, number>();
+  const add = (hand: HandRank, weight: number) => {
+    const multiplier = payouts.get(hand) ?? 0;
+    weights.set(multiplier, (weights.get(multiplier) ?? 0) + weight);
+  };
+
+  for (let round = 0; round < VIDEO_POKER_ESTIMATE_HANDS; round++) {
+    const { dealt, kept } = deal(deck, game, rand);
+    const royal = royalChance(dealt, kept);
+    if (royal > 0) {
+      add("royal-flush", royal);
+    }
+    if (royal === 1) {
+      continue;
+    }
+
+    let hand = draw(deck, dealt, kept, game);
+    while (hand === "royal-flush") {
+      shuffleInto(deck, 5, 10, rand);
+      hand = draw(deck, dealt, kept, game);
+    }
+    add(hand, 1 - royal);
+  }
+
+  return [...weights]
+    .sort((a, b) => a[0] - b[0])
+    .map(([multiplier, weight]) => ({ multiplier, probability: weight / VIDEO_POKER_ESTIMATE_HANDS }));
+};
@@ -1,8 +1,10 @@
 'use client';
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Chart as ChartJS,
+  type ChartDataset,
+  type ScriptableLineSegmentContext,
   CategoryScale,
   LinearScale,
   PointElement,
@@ -16,16 +18,79 @@ import { Line } from 'react-chartjs-2';
 import {
   MachineType,
   SimulationSettings,
-  RouletteBet,
   SlotProfile,
-  runSimulation,
   defaultSettings,
   slotProfileLabels,
-  rouletteBets,
-  createSeededRandom,
+  slotMachineStats,
+  slotMachineFor,
+  slotTopOutcome,
+  expectationBands,
+  stakePerSpin,
+  sessionExitLabels,
 } from './lib/simulation';
-import type { SimulationLine } from './lib/simulation';
+import type {
+  CustomSlotProfile,
+  SessionExit,
+  SessionRules,
+  SimulationLine,
+  SimulationSummary,
+  SlotBonusMode,
+} from './lib/simulation';
+import { useCustomSlotProfiles } from './lib/custom-profiles';
+import {
+  BASELINE_SEED,
+  MAX_DISPLAY_RUNS,
+  MAX_RUNS,
+  MAX_SPINS,
+  createRunBatch,
+  sampleLine,
+} from './lib/run-batch';
+import type { BatchRequest } from './lib/run-batch';
+import { useComparisonRuns, useSimulationRuns, useTheory } from './lib/simulation-runner';
+import { MAX_COMPARED_SETUPS } from './lib/comparison';
+import { encodeExperiment, parseExperiment } from './lib/experiment-url';
+import { experimentFile, pathsCsv, readExperimentFile, runSummariesCsv } from './lib/export';
+import type { ComparisonRequest } from './lib/comparison';
+import { outcomeStats } from './lib/outcomes';
+import type { ProgressiveJackpot } from './lib/jackpot';
+import {
+  pocketColor,
+  pocketLabel,
+  presetLayout,
+  rouletteBets,
+  rouletteVariants,
+  wheelFor,
+  winProbability,
+} from './lib/roulette';
+import type {
+  PocketColor,
+  RouletteBet,
+  RouletteChip,
+  RouletteVariant,
+} from './lib/roulette';
+import { defaultBlackjackRules } from './lib/blackjack';
+import type { BlackjackRules } from './lib/blackjack';
+import { defaultCrapsBets } from './lib/craps';
+import type { CrapsBets } from './lib/craps';
+import { baccaratMainBets, baccaratVariantLabels, defaultBaccaratBets } from './lib/baccarat';
+import type { BaccaratBets, BaccaratVariant } from './lib/baccarat';
+import { defaultVideoPokerPaytable, videoPokerPaytables } from './lib/video-poker';
+import type { VideoPokerPaytable } from './lib/video-poker';
+import { bettingStrategies } from './lib/strategies';
+import type { BettingStrategyKind } from './lib/strategies';
 import { useTheme } from './lib/theme-context';
+import { PresetPills } from './components/preset-pills';
+import { RouletteTable } from './components/roulette-table';
+import { BlackjackRulesPanel } from './components/blackjack-rules';
+import { CrapsBetsPanel } from './components/craps-bets';
+import { BaccaratBetsPanel } from './components/baccarat-bets';
+import { SlotBonusPanel } from './components/slot-bonus';
+import { JackpotSettingsPanel } from './components/jackpot-settings';
+import { JackpotChart } from './components/jackpot-chart';
+import { ComparisonView } from './components/comparison-view';
+import { VideoPokerPaytablePanel } from './components/video-poker-paytable';
+import { SlotProfileEditor } from './components/slot-profile-editor';
+import { FinalHistogram } from './components/final-histogram';
 
 ChartJS.register(
   CategoryScale,
@@ -38,6 +103,69 @@ ChartJS.register(
   Title,
 );
 
+type ChartMode = 'paths' | 'fan';
+
+const downloadFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** A short name for a saved setup in the comparison. */
+const describeSetup = (setup: SimulationSettings) => {
+  const machineLabel = machineCards.find((card) => card.machine === setup.machine)!.label;
+  const detail = (() => {
+    switch (setup.machine) {
+      case 'slot':
+        return typeof setup.profile === 'string' ? slotProfileLabels[setup.profile] : setup.profile.name;
+      case 'roulette':
+        return `${rouletteVariants[setup.variant].label} · ${setup.layout.length} chips`;
+      case 'blackjack':
+        return `${setup.rules.decks} decks`;
+      case 'craps':
+        return `${setup.bets.line.length + setup.bets.place.length} bets`;
+      case 'baccarat':
+        return `${baccaratMainBets[setup.bets.main].label} · ${baccaratVariantLabels[setup.variant]}`;
+      case 'video-poker':
+        return videoPokerPaytables[setup.paytable].label;
+    }
+  })();
+  return `${machineLabel} · ${detail} · $${stakePerSpin(setup)} · ${bettingStrategies[setup.strategy].label}`;
+};
+
+/** Path segments that include a slot bonus round. */
+const BONUS_COLOR = '#F59E0B';
+
+const bonusColumnCache = new WeakMap<number[], Set<number>>();
+
+/** Chart columns whose segment covers a bonus spin; `steps` are the spins of every column. */
+const bonusColumns = (bonusSpins: number[], steps: number[]) => {
+  const cached = bonusColumnCache.get(bonusSpins);
+  if (cached) {
+    return cached;
+  }
+
+  const columns = new Set<number>();
+  let column = 0;
+  for (const spin of bonusSpins) {
+    while (column < steps.length - 1 && steps[column] < spin) {
+      column += 1;
+    }
+    columns.add(column);
+  }
+  bonusColumnCache.set(bonusSpins, columns);
+  return columns;
+};
+
+/** The built-in machine behind a slot profile, when it has free spins. */
+const slotBonusMachine = (profile: SlotProfile) => {
+  const reelMachine = slotMachineFor(profile);
+  return reelMachine.bonus ? reelMachine : null;
+};
+
 type DisplayRun = SimulationLine & {
   id: string;
   name: string;
@@ -55,17 +183,71 @@ const palette = [
   '#52A7FA',
 ];
 
-const quickSpinPresets = [1, 5, 10, 20, 50, 100, 250, 500, 1000];
-const MAX_DISPLAY_RUNS = 100;
-const MAX_RUNS = 1000;
+const machineCards: { machine: MachineType; label: string; gradient: string; glow: string }[] = [
+  {
+    machine: 'slot',
+    label: 'Poker machine',
+    gradient: 'linear-gradient(to bottom right, rgba(124, 58, 237, 0.2), rgba(99, 102, 241, 0.2))',
+    glow: 'rgba(124, 58, 237, 0.5)',
+  },
+  {
+    machine: 'roulette',
+    label: 'Roulette wheel',
+    gradient: 'linear-gradient(to bottom right, rgba(16, 185, 129, 0.2), rgba(20, 184, 166, 0.2))',
+    glow: 'rgba(16, 185, 129, 0.5)',
+  },
+  {
+    machine: 'blackjack',
+    label: 'Blackjack',
+    gradient: 'linear-gradient(to bottom right, rgba(14, 165, 233, 0.2), rgba(59, 130, 246, 0.2))',
+    glow: 'rgba(14, 165, 233, 0.5)',
+  },
+  {
+    machine: 'craps',
+    label: 'Craps table',
+    gradient: 'linear-gradient(to bottom right, rgba(245, 158, 11, 0.2), rgba(234, 88, 12, 0.2))',
+    glow: 'rgba(245, 158, 11, 0.5)',
+  },
+  {
+    machine: 'baccarat',
+    label: 'Baccarat',
+    gradient: 'linear-gradient(to bottom right, rgba(244, 63, 94, 0.2), rgba(219, 39, 119, 0.2))',
+    glow: 'rgba(244, 63, 94, 0.5)',
+  },
+  {
+    machine: 'video-poker',
+    label: 'Video poker',
+    gradient: 'linear-gradient(to bottom right, rgba(132, 204, 22, 0.2), rgba(34, 197, 94, 0.2))',
+    glow: 'rgba(132, 204, 22, 0.5)',
+  },
+];
+
+const chartModes: ChartMode[] = ['paths', 'fan'];
+const quickSpinPresets = [1, 5, 10, 20, 50, 100, 250, 500, 1000, 10_000, 100_000];
+const bankrollPresets: (number | null)[] = [null, 20, 50, 100, 200, 500, 1000];
+const winTargetPresets: (number | null)[] = [null, 10, 25, 50, 100, 250];
+const lossLimitPresets: (number | null)[] = [null, 10, 25, 50, 100, 250];
+const maxSpinPresets: (number | null)[] = [null, 25, 50, 100, 250, 500];
+const maxMinutePresets: (number | null)[] = [null, 15, 30, 60, 120, 240];
 const SLIDER_STEPS = 100;
-const SEED_STEP = 9973;
+
+/** Slider positions spread evenly on a log scale, each at least one above the last. */
+const logSliderValues = (min: number, max: number) => {
+  const values = [min];
+  const logRange = Math.log(max / min);
+
+  for (let step = 1; step <= SLIDER_STEPS; step++) {
+    const raw = Math.round(min * Math.exp((step / SLIDER_STEPS) * logRange));
+    values.push(Math.min(max, Math.max(values[step - 1] + 1, raw)));
+  }
+
+  values[SLIDER_STEPS] = max;
+  return values;
+};
 
 const randomSeed = () => Math.floor(Math.random() * 1_000_000_000);
 
 const colorForIndex = (index: number) => palette[index % palette.length];
-const seedForIndex = (base: number, index: number) =>
-  (base + index * SEED_STEP) >>> 0;
 
 const hexToRgba = (hex: string, alpha: number) => {
   const sanitized = hex.replace('#', '');
@@ -81,13 +263,39 @@ const hexToRgba = (hex: string, alpha: number) => {
   return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 };
 
-const BASELINE_SEED = 9645231;
+const pocketSwatches: Record<PocketColor, string> = {
+  red: '#E11D48',
+  black: '#1F2937',
+  green: '#059669',
+};
+
+const HOT_COLD_COUNT = 5;
 
 export default function Home() {
   const [settings, setSettings] = useState<SimulationSettings>(defaultSettings);
   const [runCount, setRunCount] = useState<number>(1);
   const [baseSeed, setBaseSeed] = useState<number>(BASELINE_SEED);
+  const [showTheory, setShowTheory] = useState<boolean>(true);
+  const [chartMode, setChartMode] = useState<ChartMode>('paths');
+  const [showSamplePaths, setShowSamplePaths] = useState<boolean>(false);
+  const [loadProblems, setLoadProblems] = useState<{ source: string; problems: string[] } | null>(
+    null,
+  );
+  const [linkLoaded, setLinkLoaded] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Set when the clipboard refuses the link, so it can be copied by hand instead.
+  const [uncopiedLink, setUncopiedLink] = useState<string | null>(null);
+  // Per-run summaries take memory for every run, so batches keep them once an export asks.
+  const [keepRunSummaries, setKeepRunSummaries] = useState(false);
+  const [runsCsvQueued, setRunsCsvQueued] = useState(false);
+  const [comparedSetups, setComparedSetups] = useState<SimulationSettings[]>([]);
+  const [editingProfile, setEditingProfile] = useState<CustomSlotProfile | 'new' | null>(null);
   const { theme } = useTheme();
+  const {
+    profiles: customProfiles,
+    saveProfile,
+    deleteProfile,
+  } = useCustomSlotProfiles();
   const axisColor = theme === 'dark' ? 'rgba(203, 213, 225, 0.75)' : '#4b5563';
   const axisGrid = theme === 'dark' ? 'rgba(148, 163, 184, 0.18)' : 'rgba(100, 116, 139, 0.18)';
   const chartBackground = theme === 'dark' ? '#131425' : 'var(--surface-bg)';
@@ -96,105 +304,270 @@ export default function Home() {
 
   const machine = settings.machine;
 
-  const maxSpins = settings.spins;
+  const sliderRunValues = useMemo(() => logSliderValues(1, MAX_RUNS), []);
+  const sliderSpinValues = useMemo(() => logSliderValues(1, MAX_SPINS), []);
 
-  const sliderRunValues = useMemo(() => {
-    const values: number[] = [];
-    const logMax = Math.log(MAX_RUNS);
+  const batchRequest = useMemo<BatchRequest>(
+    () => ({
+      settings,
+      runCount,
+      baseSeed,
+      withBands: chartMode === 'fan',
+      withSummaries: keepRunSummaries,
+    }),
+    [settings, runCount, baseSeed, chartMode, keepRunSummaries],
+  );
+  const {
+    result: batchResult,
+    stale: batchStale,
+    running,
+    progress,
+    error: batchError,
+    cancel,
+  } = useSimulationRuns(batchRequest);
 
-    for (let step = 0; step <= SLIDER_STEPS; step++) {
-      if (step === 0) {
-        values.push(1);
-        continue;
-      }
+  const comparisonRequest = useMemo<ComparisonRequest | null>(
+    () =>
+      comparedSetups.length >= 2 ? { setups: comparedSetups, runCount, baseSeed } : null,
+    [comparedSetups, runCount, baseSeed],
+  );
+  const {
+    result: comparisonResult,
+    stale: comparisonStale,
+    running: comparisonRunning,
+    error: comparisonError,
+  } = useComparisonRuns(comparisonRequest);
+  const comparisonLabels = useMemo(() => comparedSetups.map(describeSetup), [comparedSetups]);
+  const comparisonColors = useMemo(
+    () => comparedSetups.map((_, index) => colorForIndex(index)),
+    [comparedSetups],
+  );
 
-      const normalized = step / SLIDER_STEPS;
-      const raw = Math.round(Math.exp(normalized * logMax));
-      const previous = values[step - 1];
-      const ensured = Math.min(MAX_RUNS, Math.max(previous + 1, raw));
-      values.push(ensured);
-    }
+  const simulationData = useMemo(() => {
+    const batch = batchResult ?? createRunBatch(batchRequest).snapshot();
+    const totalRuns = batch.completedRuns;
+    const displayRuns: DisplayRun[] = batch.displayLines.map((line, index) => ({
+      id: `run-${index + 1}`,
+      name: `Run ${index + 1}`,
+      color: colorForIndex(index),
+      ...line,
+    }));
 
-    values[SLIDER_STEPS] = MAX_RUNS;
-    return values;
-  }, []);
+    const tailSummary =
+      batch.tail.count > 0
+        ? {
+            count: batch.tail.count,
+            totalFinal: batch.tail.totalFinal,
+            winRate: (batch.tail.winSpins / batch.tail.spinsPlayed) * 100 || 0,
+            lossRate: (batch.tail.lossSpins / batch.tail.spinsPlayed) * 100 || 0,
+            underwaterRate: (batch.tail.spinsUnderwater / batch.tail.spinsPlayed) * 100 || 0,
+            averageDrawdown: batch.tail.drawdownTotal / batch.tail.count,
+            worstDrawdown: batch.tail.worstDrawdown,
+            averageDrawdownSpins: batch.tail.drawdownSpinsTotal / batch.tail.count,
+            longestDrawdownSpins: batch.tail.longestDrawdownSpins,
+            averagePeakSpin: batch.tail.peakSpinTotal / batch.tail.count,
+            averageSpinStdDev: batch.tail.spinStdDevTotal / batch.tail.count,
+            longestWinStreak: batch.tail.longestWinStreak,
+            longestLossStreak: batch.tail.longestLossStreak,
+          }
+        : null;
 
-  const simulationData = useMemo(() => {
-    const totalRuns = Math.max(runCount, 1);
-    const accumulator = Array.from({ length: maxSpins + 1 }, () => 0);
-    const displayRuns: DisplayRun[] = [];
-    let aggregateFinalNet = 0;
-    let tailFinalSum = 0;
-    let tailWinSpins = 0;
-    let tailLossSpins = 0;
-
-    for (let index = 0; index < totalRuns; index++) {
-      const seed = seedForIndex(baseSeed, index);
-      const rng = createSeededRandom(seed);
-      const result = runSimulation(settings, rng);
-      const { points, summary } = result;
-
-      for (let i = 0; i < points.length; i++) {
-        accumulator[i] += points[i];
-      }
+    const riskOfRuin = (batch.bustCount / totalRuns) * 100 || 0;
+    // Every run pays back what it staked plus its net; bonus rounds account for part of it.
+    const returnTotals = batch.displayLines.reduce(
+      (totals, { summary }) => ({
+        staked: totals.staked + summary.totalStaked,
+        bonusPaid: totals.bonusPaid + summary.bonusPaid,
+        bonusRounds: totals.bonusRounds + summary.bonusRounds,
+      }),
+      {
+        staked: batch.tail.totalStaked,
+        bonusPaid: batch.tail.bonusPaid,
+        bonusRounds: batch.tail.bonusRounds,
+      },
+    );
+    const rtpSplit =
+      returnTotals.staked > 0
+        ? {
+            base: (returnTotals.staked + batch.totalFinal - returnTotals.bonusPaid) / returnTotals.staked,
+            bonus: returnTotals.bonusPaid / returnTotals.staked,
+            rounds: returnTotals.bonusRounds,
+          }
+        : null;
+    const exitBreakdown = (Object.keys(sessionExitLabels) as SessionExit[])
+      .filter((reason) => batch.exitTotals.has(reason))
+      .map((reason) => {
+        const { count, totalNet } = batch.exitTotals.get(reason)!;
+        return {
+          reason,
+          share: (count / totalRuns) * 100,
+          averageNet: totalNet / count,
+        };
+      });
 
-      if (index < MAX_DISPLAY_RUNS) {
-        displayRuns.push({
-          id: `run-${index + 1}`,
-          name: `Run ${index + 1}`,
-          color: colorForIndex(index),
-          ...result,
-        });
-      } else {
-        tailFinalSum += summary.finalNet;
-        tailWinSpins += summary.totalWinSpins;
-        tailLossSpins += summary.totalLosingSpins;
-      }
+    return {
+      displayRuns,
+      meanLine: batch.meanLine,
+      steps: batch.steps,
+      tailSummary,
+      totalRuns,
+      requestedRuns: batch.totalRuns,
+      totalFinal: batch.totalFinal,
+      riskOfRuin,
+      exitBreakdown,
+      rtpSplit,
+      batchJackpot: batch.jackpot,
+      runSummaries: batch.runSummaries,
+      pocketCounts: batch.pocketCounts,
+      pocketHistory: batch.pocketHistory,
+      extremes: batch.extremes,
+      finalCounts: batch.finalCounts,
+      percentileBands: batch.percentileBands,
+    };
+  }, [batchResult, batchRequest]);
 
-      aggregateFinalNet += summary.finalNet;
-    }
+  const { displayRuns, meanLine, tailSummary, totalFinal, riskOfRuin, exitBreakdown } =
+    simulationData;
+  const { steps, totalRuns, requestedRuns, pocketCounts, pocketHistory } = simulationData;
+  const { extremes, finalCounts, percentileBands, rtpSplit, batchJackpot, runSummaries } =
+    simulationData;
+  const hasBankroll = settings.startingBankroll !== null;
+  const hasBonusRounds =
+    settings.machine === 'slot' &&
+    typeof settings.profile === 'string' &&
+    slotBonusMachine(settings.profile) !== null &&
+    settings.bonus !== 'off';
+  const hasSessionRules =
+    hasBankroll || Object.values(settings.sessionRules).some((value) => value !== null);
 
-    const meanLine =
-      totalRuns > 0
-        ? accumulator.map((sum) => sum / totalRuns)
-        : Array.from({ length: maxSpins + 1 }, () => 0);
+  const pocketStats = useMemo(() => {
+    if (settings.machine !== 'roulette') {
+      return null;
+    }
 
-    const additionalCount =
-      totalRuns > displayRuns.length ? totalRuns - displayRuns.length : 0;
+    const ranked = wheelFor(settings.variant)
+      .map((pocket) => ({ ...pocket, hits: pocketCounts.get(pocket.id) ?? 0 }))
+      .sort((a, b) => b.hits - a.hits || a.id - b.id);
 
-    const tailSummary =
-      additionalCount > 0
-        ? {
-            count: additionalCount,
-            totalFinal: tailFinalSum,
-            winRate:
-              (tailWinSpins / (additionalCount * settings.spins)) * 100 || 0,
-            lossRate:
-              (tailLossSpins / (additionalCount * settings.spins)) * 100 || 0,
-          }
-        : null;
+    return {
+      hot: ranked.slice(0, HOT_COLD_COUNT),
+      cold: ranked.slice(-HOT_COLD_COUNT).reverse(),
+      history: pocketHistory,
+    };
+  }, [settings, pocketCounts, pocketHistory]);
 
-    return { displayRuns, meanLine, tailSummary, totalRuns, totalFinal: aggregateFinalNet };
-  }, [runCount, baseSeed, settings, maxSpins]);
+  // The exact distribution assumes independent flat bets played to the last spin.
+  const exactComparable =
+    settings.machine !== 'craps' && settings.strategy === 'flat' && !hasSessionRules;
+  const theoryRequest = useMemo(
+    () => ({ settings, withDistribution: exactComparable }),
+    [settings, exactComparable],
+  );
+  const {
+    stats: theory,
+    distribution,
+    pending: theoryPending,
+    error: theoryError,
+  } = useTheory(theoryRequest);
+  // A distribution worked out for other settings would sit under the wrong histogram.
+  const exactDistribution = theoryPending || theoryError ? null : distribution;
+  const theoryBands = useMemo(() => {
+    if (!showTheory || !theory || theoryError) {
+      return null;
+    }
 
-  const { displayRuns, meanLine, tailSummary, totalFinal } = simulationData;
+    const { mean, upper1, lower1, upper2, lower2 } = expectationBands(settings, theory);
+    return {
+      mean: sampleLine(mean, steps),
+      upper1: sampleLine(upper1, steps),
+      lower1: sampleLine(lower1, steps),
+      upper2: sampleLine(upper2, steps),
+      lower2: sampleLine(lower2, steps),
+    };
+  }, [settings, theory, theoryError, showTheory, steps]);
+  const spinStake = stakePerSpin(settings);
+  // Craps figures are per roll, and most rolls settle nothing; say so beside the per-bet ones.
+  const theoryUnit = settings.machine === 'craps' ? 'roll' : 'spin';
+  const slotTop = useMemo(() => slotTopOutcome(settings), [settings]);
 
   const chartData = useMemo(() => {
-    const labels = Array.from({ length: maxSpins + 1 }, (_, index) => index);
-    const fadeLines = runCount > 1;
-    const datasets = displayRuns.map((run, index) => ({
+    const labels = steps;
+    const fadeLines = totalRuns > 1;
+    const drawnRuns = percentileBands && !showSamplePaths ? [] : displayRuns;
+    const datasets: ChartDataset<'line', number[]>[] = drawnRuns.map((run, index) => ({
       label: run.name,
       data: run.points,
-      borderColor: fadeLines ? hexToRgba(run.color, 0.45) : run.color,
+      borderColor: fadeLines ? hexToRgba(run.color, percentileBands ? 0.25 : 0.45) : run.color,
       backgroundColor: hexToRgba(run.color, fadeLines ? 0.08 : 0.18),
       pointRadius: 0,
       borderWidth: fadeLines ? 1.8 : 2.4,
       tension: 0.35,
       fill: false,
       order: index + 1,
+      ...(run.bonusSpins?.length && {
+        segment: {
+          borderColor: (context: ScriptableLineSegmentContext) =>
+            bonusColumns(run.bonusSpins!, labels).has(context.p1DataIndex)
+              ? BONUS_COLOR
+              : undefined,
+        },
+      }),
     }));
 
-    if (runCount > 1) {
+    if (percentileBands) {
+      const band = (label: string, data: number[], fill: false | string, alpha: number) => ({
+        label,
+        data,
+        borderColor: 'rgba(124, 58, 237, 0.35)',
+        backgroundColor: `rgba(124, 58, 237, ${alpha})`,
+        borderWidth: 1,
+        pointRadius: 0,
+        tension: 0.2,
+        fill,
+        order: 500,
+      });
+
+      datasets.push(
+        band('95th percentile', percentileBands.p95, false, 0),
+        band('5th percentile', percentileBands.p5, '-1', 0.14),
+        band('75th percentile', percentileBands.p75, false, 0),
+        band('25th percentile', percentileBands.p25, '-1', 0.24),
+        {
+          label: 'Best run',
+          data: extremes.max,
+          borderColor: 'rgba(124, 58, 237, 0.5)',
+          borderDash: [2, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.2,
+          fill: false,
+          order: 500,
+        },
+        {
+          label: 'Worst run',
+          data: extremes.min,
+          borderColor: 'rgba(124, 58, 237, 0.5)',
+          borderDash: [2, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+          tension: 0.2,
+          fill: false,
+          order: 500,
+        },
+        {
+          label: 'Median',
+          data: percentileBands.p50,
+          borderColor: '#A78BFA',
+          borderWidth: 2.6,
+          pointRadius: 0,
+          tension: 0.2,
+          fill: false,
+          order: 1,
+        },
+      );
+    }
+
+    if (totalRuns > 1) {
       datasets.push({
         label: 'Mean payout',
         data: meanLine,
@@ -208,8 +581,50 @@ export default function Home() {
       });
     }
 
+    if (theoryBands) {
+      const envelope = (data: number[], fill: false | string, alpha: number) => ({
+        label: 'Theoretical envelope',
+        data,
+        borderColor: 'rgba(148, 163, 184, 0.25)',
+        backgroundColor: `rgba(148, 163, 184, ${alpha})`,
+        borderWidth: 1,
+        pointRadius: 0,
+        tension: 0,
+        fill,
+        order: 1000,
+      });
+
+      datasets.push(
+        envelope(theoryBands.upper2, false, 0),
+        envelope(theoryBands.lower2, '-1', 0.08),
+        envelope(theoryBands.upper1, false, 0),
+        envelope(theoryBands.lower1, '-1', 0.12),
+        {
+          label: 'Expected value',
+          data: theoryBands.mean,
+          borderColor: axisColor,
+          borderDash: [6, 6],
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0,
+          fill: false,
+          order: 999,
+        },
+      );
+    }
+
     return { labels, datasets };
-  }, [displayRuns, meanLine, maxSpins, runCount]);
+  }, [
+    displayRuns,
+    meanLine,
+    steps,
+    totalRuns,
+    theoryBands,
+    axisColor,
+    percentileBands,
+    extremes,
+    showSamplePaths,
+  ]);
 
   const chartOptions = useMemo(() => {
     return {
@@ -282,6 +697,10 @@ export default function Home() {
         const base = {
           spins: prev.spins,
           betSize: prev.betSize,
+          strategy: prev.strategy,
+          tableMax: prev.tableMax,
+          startingBankroll: prev.startingBankroll,
+          sessionRules: prev.sessionRules,
         };
 
         if (nextMachine === 'slot') {
@@ -291,18 +710,58 @@ export default function Home() {
             ...base,
             machine: 'slot' as const,
             profile,
+            bonus: 'off' as SlotBonusMode,
+            jackpot: null,
+          };
+        }
+
+        if (nextMachine === 'blackjack') {
+          return {
+            ...base,
+            machine: 'blackjack' as const,
+            rules: defaultBlackjackRules,
+          };
+        }
+
+        if (nextMachine === 'craps') {
+          return {
+            ...base,
+            machine: 'craps' as const,
+            bets: defaultCrapsBets,
+          };
+        }
+
+        if (nextMachine === 'baccarat') {
+          return {
+            ...base,
+            machine: 'baccarat' as const,
+            bets: defaultBaccaratBets,
+            variant: 'commission' as BaccaratVariant,
+          };
+        }
+
+        if (nextMachine === 'video-poker') {
+          return {
+            ...base,
+            machine: 'video-poker' as const,
+            paytable: defaultVideoPokerPaytable,
           };
         }
 
-        const bet =
+        const layout =
+          prev.machine === 'roulette'
+            ? prev.layout
+            : presetLayout('single-number');
+        const variant =
           prev.machine === 'roulette'
-            ? prev.bet
-            : ('single-number' as RouletteBet);
+            ? prev.variant
+            : ('european' as RouletteVariant);
 
         return {
           ...base,
           machine: 'roulette' as const,
-          bet,
+          layout,
+          variant,
         };
       });
     },
@@ -327,7 +786,29 @@ export default function Home() {
     });
   }, []);
 
-  const updateSlotProfile = useCallback((profile: SlotProfile) => {
+  const updateStrategy = useCallback((strategy: BettingStrategyKind) => {
+    setSettings((prev) => ({ ...prev, strategy }));
+  }, []);
+
+  const updateTableMax = useCallback((value: number) => {
+    setSettings((prev) => ({ ...prev, tableMax: value }));
+  }, []);
+
+  const updateStartingBankroll = useCallback((value: number | null) => {
+    setSettings((prev) => ({ ...prev, startingBankroll: value }));
+  }, []);
+
+  const updateSessionRule = useCallback(
+    (rule: keyof SessionRules, value: number | null) => {
+      setSettings((prev) => ({
+        ...prev,
+        sessionRules: { ...prev.sessionRules, [rule]: value },
+      }));
+    },
+    [],
+  );
+
+  const updateSlotProfile = useCallback((profile: SlotProfile | CustomSlotProfile) => {
     setSettings((prev) => {
       if (prev.machine !== 'slot') {
         return prev;
@@ -336,12 +817,115 @@ export default function Home() {
     });
   }, []);
 
+  const updateSlotBonus = useCallback((bonus: SlotBonusMode) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'slot') {
+        return prev;
+      }
+      return { ...prev, bonus };
+    });
+  }, []);
+
+  const updateSlotJackpot = useCallback((jackpot: ProgressiveJackpot | null) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'slot') {
+        return prev;
+      }
+      return { ...prev, jackpot };
+    });
+  }, []);
+
   const updateRouletteBet = useCallback((bet: RouletteBet) => {
     setSettings((prev) => {
       if (prev.machine !== 'roulette') {
         return prev;
       }
-      return { ...prev, bet };
+      return { ...prev, layout: presetLayout(bet) };
+    });
+  }, []);
+
+  const updateRouletteLayout = useCallback((layout: RouletteChip[]) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'roulette') {
+        return prev;
+      }
+      return { ...prev, layout };
+    });
+  }, []);
+
+  const handleSaveProfile = useCallback(
+    (profile: CustomSlotProfile) => {
+      saveProfile(profile);
+      setEditingProfile(null);
+      updateSlotProfile(profile);
+    },
+    [saveProfile, updateSlotProfile],
+  );
+
+  const handleDeleteProfile = useCallback(
+    (id: string) => {
+      deleteProfile(id);
+      setSettings((prev) => {
+        if (prev.machine !== 'slot' || typeof prev.profile === 'string' || prev.profile.id !== id) {
+          return prev;
+        }
+        return { ...prev, profile: 'balanced' };
+      });
+    },
+    [deleteProfile],
+  );
+
+  const updateRouletteVariant = useCallback((variant: RouletteVariant) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'roulette') {
+        return prev;
+      }
+      return { ...prev, variant };
+    });
+  }, []);
+
+  const updateBlackjackRules = useCallback((rules: BlackjackRules) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'blackjack') {
+        return prev;
+      }
+      return { ...prev, rules };
+    });
+  }, []);
+
+  const updateCrapsBets = useCallback((bets: CrapsBets) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'craps') {
+        return prev;
+      }
+      return { ...prev, bets };
+    });
+  }, []);
+
+  const updateBaccaratBets = useCallback((bets: BaccaratBets) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'baccarat') {
+        return prev;
+      }
+      return { ...prev, bets };
+    });
+  }, []);
+
+  const updateVideoPokerPaytable = useCallback((paytable: VideoPokerPaytable) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'video-poker') {
+        return prev;
+      }
+      return { ...prev, paytable };
+    });
+  }, []);
+
+  const updateBaccaratVariant = useCallback((variant: BaccaratVariant) => {
+    setSettings((prev) => {
+      if (prev.machine !== 'baccarat') {
+        return prev;
+      }
+      return { ...prev, variant };
     });
   }, []);
 
@@ -353,10 +937,118 @@ export default function Home() {
     [sliderRunValues],
   );
 
+  const handleSetSpins = useCallback(
+    (sliderValue: number) => {
+      const clamped = Math.max(0, Math.min(SLIDER_STEPS, Math.floor(sliderValue)));
+      updateSpins(sliderSpinValues[clamped]);
+    },
+    [sliderSpinValues, updateSpins],
+  );
+
   const handleReroll = useCallback(() => {
     setBaseSeed(randomSeed());
   }, []);
 
+  // Opening a shared link replays its experiment; from then on the URL follows the controls.
+  useEffect(() => {
+    const { experiment, problems } = parseExperiment(window.location.search);
+    if (experiment) {
+      setSettings(experiment.settings);
+      setRunCount(experiment.runCount);
+      setBaseSeed(experiment.baseSeed);
+    }
+    if (problems.length > 0) {
+      setLoadProblems({ source: 'link', problems });
+    }
+    setLinkLoaded(true);
+  }, []);
+
+  const experimentQuery = useMemo(
+    () => encodeExperiment({ settings, runCount, baseSeed }).toString(),
+    [settings, runCount, baseSeed],
+  );
+
+  useEffect(() => {
+    if (linkLoaded) {
+      window.history.replaceState(null, '', `${window.location.pathname}?${experimentQuery}`);
+    }
+  }, [experimentQuery, linkLoaded]);
+
+  const handleCopyLink = useCallback(() => {
+    const url = `${window.location.origin}${window.location.pathname}?${experimentQuery}`;
+    // The clipboard is unavailable outside secure contexts, without permission or focus.
+    navigator.clipboard.writeText(url).then(
+      () => {
+        setUncopiedLink(null);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      },
+      () => setUncopiedLink(url),
+    );
+  }, [experimentQuery]);
+
+  const exportName = `casino-lab-${settings.machine}-${baseSeed}`;
+  // Until the current settings report back, the runs on screen belong to the previous ones.
+  const exportPending = running || batchStale;
+
+  const downloadRunsCsv = useCallback(
+    (summaries: SimulationSummary[]) =>
+      downloadFile(`${exportName}-runs.csv`, runSummariesCsv(summaries, baseSeed), 'text/csv'),
+    [baseSeed, exportName],
+  );
+
+  // Without kept summaries the batch plays again from the same seeds, and the file follows.
+  const handleExportRuns = useCallback(() => {
+    if (runSummaries) {
+      downloadRunsCsv(runSummaries);
+    } else {
+      setKeepRunSummaries(true);
+      setRunsCsvQueued(true);
+    }
+  }, [runSummaries, downloadRunsCsv]);
+
+  useEffect(() => {
+    if (runsCsvQueued && !exportPending) {
+      setRunsCsvQueued(false);
+      if (runSummaries) {
+        downloadRunsCsv(runSummaries);
+      }
+    }
+  }, [runsCsvQueued, exportPending, runSummaries, downloadRunsCsv]);
+
+  const handleExportPaths = useCallback(() => {
+    downloadFile(`${exportName}-paths.csv`, pathsCsv(steps, displayRuns, meanLine), 'text/csv');
+  }, [steps, displayRuns, meanLine, exportName]);
+
+  const handleExportJson = useCallback(() => {
+    const file = experimentFile(
+      { settings, runCount, baseSeed },
+      {
+        steps,
+        meanLine,
+        paths: displayRuns.map(({ points }) => points),
+        runSummaries,
+      },
+    );
+    downloadFile(`${exportName}.json`, JSON.stringify(file), 'application/json');
+  }, [settings, runCount, baseSeed, steps, meanLine, displayRuns, runSummaries, exportName]);
+
+  // An imported file replays its experiment from the seed, so the page redraws the same runs.
+  const handleImportJson = useCallback((file: File) => {
+    file.text().then(
+      (text) => {
+        const { experiment, problems } = readExperimentFile(text);
+        if (experiment) {
+          setSettings(experiment.settings);
+          setRunCount(experiment.runCount);
+          setBaseSeed(experiment.baseSeed);
+        }
+        setLoadProblems(problems.length > 0 ? { source: 'file', problems } : null);
+      },
+      () => setLoadProblems({ source: 'file', problems: ['The file could not be read.'] }),
+    );
+  }, []);
+
   const handleRemoveAll = useCallback(() => {
     setRunCount(1);
     setBaseSeed(BASELINE_SEED);
@@ -370,8 +1062,13 @@ export default function Home() {
     return index;
   }, [runCount, sliderRunValues]);
 
-  const runLabel = runCount === 1 ? 'run' : 'runs';
-  const isVisualizationPaused = runCount > MAX_DISPLAY_RUNS;
+  const spinSliderPosition = useMemo(() => {
+    const index = sliderSpinValues.findIndex((value) => value >= settings.spins);
+    return index === -1 ? SLIDER_STEPS : index;
+  }, [settings.spins, sliderSpinValues]);
+
+  const runLabel = totalRuns === 1 ? 'run' : 'runs';
+  const isVisualizationPaused = chartMode === 'paths' && runCount > MAX_DISPLAY_RUNS;
   const shouldFadeRuns = Math.min(runCount, MAX_DISPLAY_RUNS) > 1;
 
   return (
@@ -389,58 +1086,56 @@ export default function Home() {
           </h1>
         </header>
 
+        {loadProblems && (
+          <div className="flex flex-col gap-1 rounded-2xl border border-rose-400/40 bg-rose-400/10 px-6 py-4 text-xs text-rose-400">
+            <div className="flex items-center justify-between gap-4">
+              <span className="font-bold uppercase tracking-[0.2em]">
+                This {loadProblems.source} could not be opened
+              </span>
+              <button
+                onClick={() => setLoadProblems(null)}
+                className="pressable font-bold"
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+            {loadProblems.problems.map((problem) => (
+              <span key={problem}>{problem}</span>
+            ))}
+          </div>
+        )}
+
         <section className="grid gap-10 lg:grid-cols-[340px_1fr]">
           <div className="flex flex-col gap-8">
             <div>
               <h2 className="text-sm font-semibold uppercase tracking-[0.2em] mb-4" style={{ color: 'var(--text-muted)' }}>Game mode</h2>
               <div className="grid grid-cols-2 gap-4">
-                <button
-                  onClick={() => handleMachineChange('slot')}
-                  className="pressable group relative px-6 py-4 text-left rounded-3xl"
-                  style={{ color: machine === 'slot' ? 'var(--foreground)' : 'var(--text-muted)' }}
-                >
-                  <div
-                    className="absolute inset-0 rounded-3xl"
-                    style={{
-                      background: machine === 'slot'
-                        ? 'linear-gradient(to bottom right, rgba(124, 58, 237, 0.2), rgba(99, 102, 241, 0.2))'
-                        : 'var(--surface-bg)',
-                      borderWidth: machine === 'slot' ? '0px' : '1px',
-                      borderStyle: 'solid',
-                      borderColor: 'var(--border-color)',
-                      boxShadow: machine === 'slot'
-                        ? '0 0 50px -12px rgba(124, 58, 237, 0.5)'
-                        : 'none'
-                    }}
-                  />
-                  <span className="relative block text-sm font-bold uppercase tracking-wider">
-                    Poker machine
-                  </span>
-                </button>
-
-                <button
-                  onClick={() => handleMachineChange('roulette')}
-                  className="pressable group relative px-6 py-4 text-left rounded-3xl"
-                  style={{ color: machine === 'roulette' ? 'var(--foreground)' : 'var(--text-muted)' }}
-                >
-                  <div
-                    className="absolute inset-0 rounded-3xl"
-                    style={{
-                      background: machine === 'roulette'
-                        ? 'linear-gradient(to bottom right, rgba(16, 185, 129, 0.2), rgba(20, 184, 166, 0.2))'
-                        : 'var(--surface-bg)',
-                      borderWidth: machine === 'roulette' ? '0px' : '1px',
-                      borderStyle: 'solid',
-                      borderColor: 'var(--border-color)',
-                      boxShadow: machine === 'roulette'
-                        ? '0 0 50px -12px rgba(16, 185, 129, 0.5)'
-                        : 'none'
-                    }}
-                  />
-                  <span className="relative block text-sm font-bold uppercase tracking-wider">
-                    Roulette wheel
-                  </span>
-                </button>
+                {machineCards.map((card) => {
+                  const isActive = machine === card.machine;
+                  return (
+                    <button
+                      key={card.machine}
+                      onClick={() => handleMachineChange(card.machine)}
+                      className="pressable group relative px-6 py-4 text-left rounded-3xl"
+                      style={{ color: isActive ? 'var(--foreground)' : 'var(--text-muted)' }}
+                    >
+                      <div
+                        className="absolute inset-0 rounded-3xl"
+                        style={{
+                          background: isActive ? card.gradient : 'var(--surface-bg)',
+                          borderWidth: isActive ? '0px' : '1px',
+                          borderStyle: 'solid',
+                          borderColor: 'var(--border-color)',
+                          boxShadow: isActive ? `0 0 50px -12px ${card.glow}` : 'none',
+                        }}
+                      />
+                      <span className="relative block text-sm font-bold uppercase tracking-wider">
+                        {card.label}
+                      </span>
+                    </button>
+                  );
+                })}
               </div>
             </div>
 
@@ -454,7 +1149,9 @@ export default function Home() {
                   <span className="text-2xl font-bold theme-text tabular-nums">
                     {runCount.toLocaleString()}
                   </span>
-                  <span className="text-xs uppercase tracking-widest theme-text-muted">1000</span>
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">
+                    {MAX_RUNS.toLocaleString()}
+                  </span>
                 </div>
                 <input
                   className="slider-custom mt-2 h-1.5 w-full cursor-pointer appearance-none rounded-full accent-violet-500"
@@ -466,7 +1163,7 @@ export default function Home() {
                   value={runSliderPosition}
                   onChange={(event) => handleSetRunCount(Number(event.target.value))}
                 />
-                <div className="grid grid-cols-2 gap-3">
+                <div className="grid grid-cols-3 gap-3">
                   <button
                     onClick={handleReroll}
                     className="pressable rounded-2xl px-4 py-2.5 text-xs font-bold uppercase tracking-wider transition-transform duration-200 hover:-translate-y-0.5"
@@ -478,6 +1175,16 @@ export default function Home() {
                   >
                     ↻ Rerun
                   </button>
+                  <button
+                    onClick={handleCopyLink}
+                    className="pressable rounded-2xl border px-4 py-2.5 text-xs font-bold uppercase tracking-wider theme-border hover:bg-[var(--surface-hover)]"
+                    style={{
+                      background: 'var(--surface-bg)',
+                      color: linkCopied ? 'var(--accent-emerald)' : 'var(--text-muted)',
+                    }}
+                  >
+                    {linkCopied ? 'Copied' : uncopiedLink ? 'Copy failed' : 'Copy link'}
+                  </button>
                   <button
                     onClick={handleRemoveAll}
                     className="pressable rounded-2xl border px-4 py-2.5 text-xs font-bold uppercase tracking-wider theme-border hover:bg-[var(--surface-hover)]"
@@ -489,6 +1196,105 @@ export default function Home() {
                     Clear
                   </button>
                 </div>
+                {uncopiedLink && (
+                  <div className="flex flex-col gap-2 rounded-2xl border border-rose-400/40 bg-rose-400/10 px-4 py-3 text-xs text-rose-400">
+                    <div className="flex items-center justify-between gap-4">
+                      <span>The clipboard is not available here. Copy the link yourself:</span>
+                      <button
+                        onClick={() => setUncopiedLink(null)}
+                        className="pressable font-bold"
+                        aria-label="Dismiss"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    <input
+                      readOnly
+                      value={uncopiedLink}
+                      onFocus={(event) => event.target.select()}
+                      className="w-full rounded-lg border px-2 py-1 font-mono theme-border theme-text"
+                      style={{ background: 'var(--surface-bg)' }}
+                    />
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-[11px] font-bold uppercase tracking-wider">
+                  <span className="theme-text-muted">Export</span>
+                  {[
+                    {
+                      label: 'Runs CSV',
+                      onClick: handleExportRuns,
+                      // A stopped batch that kept summaries has only some of them.
+                      disabled: exportPending || (keepRunSummaries && runSummaries === null),
+                    },
+                    { label: 'Paths CSV', onClick: handleExportPaths, disabled: exportPending },
+                    { label: 'JSON', onClick: handleExportJson, disabled: exportPending },
+                  ].map(({ label, onClick, disabled }) => (
+                    <button
+                      key={label}
+                      onClick={onClick}
+                      disabled={disabled}
+                      title={disabled ? 'Available once every run has finished' : undefined}
+                      className="pressable rounded-full border px-3 py-1.5 theme-border disabled:opacity-40"
+                      style={{ background: 'var(--surface-bg)', color: 'var(--text-muted)' }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <label
+                    className="pressable cursor-pointer rounded-full border px-3 py-1.5 theme-border"
+                    style={{ background: 'var(--surface-bg)', color: 'var(--text-muted)' }}
+                  >
+                    Import JSON
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        if (file) {
+                          handleImportJson(file);
+                        }
+                        event.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                {batchError ? (
+                  <p className="text-xs text-rose-400">Simulation failed: {batchError}</p>
+                ) : (running || totalRuns < requestedRuns) && (
+                  <div className="flex flex-col gap-2">
+                    <div className="flex items-center justify-between text-xs tabular-nums theme-text-muted">
+                      <span>
+                        {running
+                          ? `Simulating… ${Math.floor(progress * 100)}%`
+                          : `Stopped after ${totalRuns.toLocaleString()} of ${requestedRuns.toLocaleString()} runs`}
+                      </span>
+                      {running && (
+                        <button
+                          onClick={() => {
+                            cancel();
+                            setRunsCsvQueued(false);
+                          }}
+                          className="pressable text-xs font-bold uppercase tracking-wider text-rose-400"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                    <div
+                      className="h-1 w-full overflow-hidden rounded-full"
+                      style={{ background: 'var(--slider-track)' }}
+                    >
+                      <div
+                        className="h-full rounded-full transition-[width] duration-150"
+                        style={{
+                          width: `${(running ? progress : totalRuns / requestedRuns) * 100}%`,
+                          background: 'var(--accent-violet)',
+                        }}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -500,19 +1306,21 @@ export default function Home() {
                 <div className="flex items-center justify-between">
                   <span className="text-xs uppercase tracking-widest theme-text-muted">1</span>
                   <span className="text-2xl font-bold theme-text tabular-nums">
-                    {settings.spins}
+                    {settings.spins.toLocaleString()}
+                  </span>
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">
+                    {MAX_SPINS.toLocaleString()}
                   </span>
-                  <span className="text-xs uppercase tracking-widest theme-text-muted">1000</span>
                 </div>
                 <input
                   className="slider-custom h-1.5 w-full cursor-pointer appearance-none rounded-full accent-indigo-500"
                   style={{ background: 'var(--slider-track)' }}
                   type="range"
-                  min={1}
-                  max={1000}
+                  min={0}
+                  max={SLIDER_STEPS}
                   step={1}
-                  value={settings.spins}
-                  onChange={(event) => updateSpins(Number(event.target.value))}
+                  value={spinSliderPosition}
+                  onChange={(event) => handleSetSpins(Number(event.target.value))}
                 />
                 <div className="flex flex-wrap gap-2">
                   {quickSpinPresets.map((value) => {
@@ -532,7 +1340,7 @@ export default function Home() {
                           borderStyle: 'solid',
                         }}
                       >
-                        {value}
+                        {value.toLocaleString()}
                       </button>
                     );
                   })}
@@ -542,7 +1350,7 @@ export default function Home() {
 
             <div>
               <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
-                Bet size
+                {settings.strategy === 'flat' ? 'Bet size' : 'Base unit'}
               </h3>
               <div className="space-y-5">
                 <div className="flex items-center justify-between">
@@ -565,6 +1373,154 @@ export default function Home() {
               </div>
             </div>
 
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                Starting bankroll
+              </h3>
+              <div className="space-y-5">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">$10</span>
+                  <span className="text-2xl font-bold theme-text tabular-nums">
+                    {hasBankroll ? `$${settings.startingBankroll}` : 'Unlimited'}
+                  </span>
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">$2000</span>
+                </div>
+                <input
+                  className="slider-custom h-1.5 w-full cursor-pointer appearance-none rounded-full accent-emerald-500"
+                  style={{ background: 'var(--slider-track)', opacity: hasBankroll ? 1 : 0.4 }}
+                  type="range"
+                  min={10}
+                  max={2000}
+                  step={10}
+                  value={settings.startingBankroll ?? 2000}
+                  onChange={(event) => updateStartingBankroll(Number(event.target.value))}
+                />
+                <PresetPills
+                  values={bankrollPresets}
+                  active={settings.startingBankroll}
+                  onSelect={updateStartingBankroll}
+                  format={(value) => (value === null ? '∞' : `$${value}`)}
+                  accent="var(--accent-emerald)"
+                  glow="rgba(16, 185, 129, 0.2)"
+                />
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                Session rules
+              </h3>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">Walk away up</span>
+                  <PresetPills
+                    values={winTargetPresets}
+                    active={settings.sessionRules.winTarget}
+                    onSelect={(value) => updateSessionRule('winTarget', value)}
+                    format={(value) => (value === null ? 'Off' : `+$${value}`)}
+                    accent="var(--accent-emerald)"
+                    glow="rgba(16, 185, 129, 0.2)"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">Walk away down</span>
+                  <PresetPills
+                    values={lossLimitPresets}
+                    active={settings.sessionRules.lossLimit}
+                    onSelect={(value) => updateSessionRule('lossLimit', value)}
+                    format={(value) => (value === null ? 'Off' : `−$${value}`)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">Spin limit</span>
+                  <PresetPills
+                    values={maxSpinPresets}
+                    active={settings.sessionRules.maxSpins}
+                    onSelect={(value) => updateSessionRule('maxSpins', value)}
+                    format={(value) => (value === null ? 'Off' : String(value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <span className="text-xs uppercase tracking-widest theme-text-muted">Time limit</span>
+                  <PresetPills
+                    values={maxMinutePresets}
+                    active={settings.sessionRules.maxMinutes}
+                    onSelect={(value) => updateSessionRule('maxMinutes', value)}
+                    format={(value) => (value === null ? 'Off' : `${value}m`)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="border-t pt-8 theme-border">
+              <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                Betting strategy
+              </h3>
+              <div className="flex flex-col gap-3">
+                {(Object.keys(bettingStrategies) as BettingStrategyKind[]).map(
+                  (strategyKey, index) => {
+                    const strategy = bettingStrategies[strategyKey];
+                    const isActive = settings.strategy === strategyKey;
+                    return (
+                      <button
+                        key={strategyKey}
+                        onClick={() => updateStrategy(strategyKey)}
+                        className="pressable relative flex items-start gap-3 overflow-hidden rounded-2xl border px-5 py-3 text-left transition-transform duration-150 hover:-translate-y-0.5"
+                        style={{
+                          background: isActive
+                            ? 'linear-gradient(135deg, rgba(245, 158, 11, 0.2), rgba(249, 115, 22, 0.22))'
+                            : 'var(--surface-bg)',
+                          color: isActive ? 'var(--foreground)' : 'var(--text-muted)',
+                          borderColor: isActive ? 'rgba(245, 158, 11, 0.35)' : 'var(--border-color)',
+                          borderWidth: '1px',
+                          borderStyle: 'solid',
+                          boxShadow: isActive ? '0 18px 40px rgba(245, 158, 11, 0.2)' : 'none',
+                        }}
+                      >
+                        <span
+                          className="mt-1.5 inline-flex h-2 w-2 shrink-0 rounded-full"
+                          style={{
+                            background: colorForIndex(index),
+                            boxShadow: `0 0 16px ${hexToRgba(colorForIndex(index), 0.5)}`,
+                          }}
+                          aria-hidden
+                        />
+                        <div className="flex flex-col">
+                          <span className="text-sm font-bold uppercase tracking-wide">
+                            {strategy.label}
+                          </span>
+                          <p className="mt-1 text-xs theme-text-muted">{strategy.description}</p>
+                        </div>
+                      </button>
+                    );
+                  },
+                )}
+              </div>
+              {settings.strategy !== 'flat' && (
+                <div className="mt-6 space-y-5">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs uppercase tracking-widest theme-text-muted">Table max</span>
+                    <span className="text-2xl font-bold theme-text tabular-nums">
+                      ${settings.tableMax}
+                    </span>
+                    <span className="text-xs uppercase tracking-widest theme-text-muted">
+                      {Math.floor(settings.tableMax / settings.betSize)}× unit
+                    </span>
+                  </div>
+                  <input
+                    className="slider-custom h-1.5 w-full cursor-pointer appearance-none rounded-full accent-amber-500"
+                    style={{ background: 'var(--slider-track)' }}
+                    type="range"
+                    min={10}
+                    max={5000}
+                    step={10}
+                    value={settings.tableMax}
+                    onChange={(event) => updateTableMax(Number(event.target.value))}
+                  />
+                </div>
+              )}
+            </div>
+
             {machine === 'slot' && (
               <div className="border-t pt-8 theme-border">
                 <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
@@ -574,6 +1530,7 @@ export default function Home() {
                   {(Object.keys(slotProfileLabels) as SlotProfile[]).map(
                     (profile, index) => {
                       const isActive = settings.machine === 'slot' && settings.profile === profile;
+                      const machineStats = slotMachineStats(profile);
                       return (
                         <button
                           key={profile}
@@ -610,16 +1567,192 @@ export default function Home() {
                               {profile === 'volatile' &&
                                 'Long droughts chasing monster jackpots.'}
                             </p>
+                            <p className="mt-1 text-[11px] font-mono theme-text-muted">
+                              {`RTP ${(machineStats.rtp * 100).toFixed(2)}% · hit ${(machineStats.hitFrequency * 100).toFixed(1)}%`}
+                            </p>
                           </div>
                         </button>
                       );
                     },
                   )}
+                  {customProfiles.map((profile) => {
+                    const isActive =
+                      settings.machine === 'slot' &&
+                      typeof settings.profile !== 'string' &&
+                      settings.profile.id === profile.id;
+                    const profileStats = outcomeStats(profile.outcomes);
+                    return (
+                      <div
+                        key={profile.id}
+                        className="relative flex items-start justify-between gap-3 overflow-hidden rounded-2xl border px-5 py-4 text-left"
+                        style={{
+                          background: isActive
+                            ? 'linear-gradient(135deg, rgba(124, 58, 237, 0.22), rgba(79, 70, 229, 0.25))'
+                            : 'var(--surface-bg)',
+                          color: isActive ? 'var(--foreground)' : 'var(--text-muted)',
+                          borderColor: isActive ? 'rgba(124, 58, 237, 0.35)' : 'var(--border-color)',
+                          borderWidth: '1px',
+                          borderStyle: 'dashed',
+                        }}
+                      >
+                        <button
+                          onClick={() => updateSlotProfile(profile)}
+                          className="pressable flex flex-col text-left"
+                        >
+                          <span className="text-sm font-bold uppercase tracking-wide">
+                            {profile.name}
+                          </span>
+                          <p className="mt-1 text-[11px] font-mono theme-text-muted">
+                            {`RTP ${(profileStats.rtp * 100).toFixed(2)}% · hit ${(profileStats.hitRate * 100).toFixed(1)}%`}
+                          </p>
+                        </button>
+                        <div className="flex gap-3 text-[11px] font-bold uppercase tracking-wider theme-text-muted">
+                          <button onClick={() => setEditingProfile(profile)} className="pressable">
+                            Edit
+                          </button>
+                          <button onClick={() => handleDeleteProfile(profile.id)} className="pressable">
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {editingProfile ? (
+                    <SlotProfileEditor
+                      key={editingProfile === 'new' ? 'new' : editingProfile.id}
+                      initial={editingProfile === 'new' ? null : editingProfile}
+                      onSave={handleSaveProfile}
+                      onCancel={() => setEditingProfile(null)}
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setEditingProfile('new')}
+                      className="pressable rounded-2xl border border-dashed px-5 py-3 text-xs font-bold uppercase tracking-wider theme-border theme-text-muted"
+                    >
+                      + Custom profile
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {settings.machine === 'slot' &&
+              typeof settings.profile === 'string' &&
+              slotBonusMachine(settings.profile) && (
+                <div className="border-t pt-8 theme-border">
+                  <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                    Bonus feature
+                  </h3>
+                  <SlotBonusPanel
+                    machine={slotBonusMachine(settings.profile)!}
+                    mode={settings.bonus}
+                    onChange={updateSlotBonus}
+                  />
+                </div>
+              )}
+
+            {settings.machine === 'slot' &&
+              slotTop &&
+              theory &&
+              !(hasBonusRounds && settings.bonus === 'bought') && (
+                <div className="border-t pt-8 theme-border">
+                  <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                    Progressive jackpot
+                  </h3>
+                  <JackpotSettingsPanel
+                    jackpot={settings.jackpot}
+                    top={slotTop}
+                    rtpAtSeed={theory.rtp}
+                    betSize={settings.betSize}
+                    onChange={updateSlotJackpot}
+                  />
                 </div>
+              )}
+
+            {settings.machine === 'blackjack' && (
+              <div className="border-t pt-8 theme-border">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                  Table rules
+                </h3>
+                <BlackjackRulesPanel
+                  rules={settings.rules}
+                  stats={theory}
+                  onChange={updateBlackjackRules}
+                />
               </div>
             )}
 
-            {machine === 'roulette' && (
+            {settings.machine === 'craps' && (
+              <div className="border-t pt-8 theme-border">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                  Bets
+                </h3>
+                <CrapsBetsPanel bets={settings.bets} stats={theory} onChange={updateCrapsBets} />
+              </div>
+            )}
+
+            {settings.machine === 'baccarat' && (
+              <div className="border-t pt-8 theme-border">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                  Bets
+                </h3>
+                <BaccaratBetsPanel
+                  bets={settings.bets}
+                  variant={settings.variant}
+                  stats={theory}
+                  onBetsChange={updateBaccaratBets}
+                  onVariantChange={updateBaccaratVariant}
+                />
+              </div>
+            )}
+
+            {settings.machine === 'video-poker' && (
+              <div className="border-t pt-8 theme-border">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                  Paytable
+                </h3>
+                <VideoPokerPaytablePanel
+                  paytable={settings.paytable}
+                  stats={theory}
+                  onChange={updateVideoPokerPaytable}
+                />
+              </div>
+            )}
+
+            {settings.machine === 'roulette' && (
+              <div className="border-t pt-8 theme-border">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                  Wheel
+                </h3>
+                <div className="grid grid-cols-2 gap-3">
+                  {(Object.keys(rouletteVariants) as RouletteVariant[]).map((variantKey) => {
+                    const variant = rouletteVariants[variantKey];
+                    const isActive = settings.variant === variantKey;
+                    return (
+                      <button
+                        key={variantKey}
+                        onClick={() => updateRouletteVariant(variantKey)}
+                        className="pressable relative flex flex-col overflow-hidden rounded-2xl border px-4 py-3 text-left transition-transform duration-150 hover:-translate-y-0.5"
+                        style={{
+                          background: isActive
+                            ? 'linear-gradient(135deg, rgba(16, 185, 129, 0.22), rgba(45, 212, 191, 0.24))'
+                            : 'var(--surface-bg)',
+                          color: isActive ? 'var(--foreground)' : 'var(--text-muted)',
+                          borderColor: isActive ? 'rgba(16, 185, 129, 0.35)' : 'var(--border-color)',
+                          borderWidth: '1px',
+                          borderStyle: 'solid',
+                        }}
+                      >
+                        <span className="text-xs font-bold uppercase tracking-wide">{variant.label}</span>
+                        <span className="mt-1 text-[11px] theme-text-muted">{variant.description}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {settings.machine === 'roulette' && (
               <div className="border-t pt-8 theme-border">
                 <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
                   Bet structure
@@ -628,8 +1761,11 @@ export default function Home() {
                   {(Object.keys(rouletteBets) as RouletteBet[]).map(
                     (betKey, index) => {
                       const bet = rouletteBets[betKey];
+                      const [chip] = settings.layout;
                       const isActive =
-                        settings.machine === 'roulette' && settings.bet === betKey;
+                        settings.layout.length === 1 &&
+                        chip.bet === betKey &&
+                        chip.numbers.join() === bet.numbers.join();
                       return (
                         <button
                           key={betKey}
@@ -657,7 +1793,7 @@ export default function Home() {
                           <div className="flex flex-col">
                             <span className="text-sm font-bold uppercase tracking-wide">{bet.label}</span>
                             <p className="mt-1 text-xs theme-text-muted">
-                              {`Win chance ${(bet.probability * 100).toFixed(1)}% · payout ${bet.multiplier - 1}:1`}
+                              {`Win chance ${(winProbability(betKey, settings.variant) * 100).toFixed(1)}% · payout ${bet.multiplier - 1}:1`}
                             </p>
                           </div>
                         </button>
@@ -667,6 +1803,20 @@ export default function Home() {
                 </div>
               </div>
             )}
+
+            {settings.machine === 'roulette' && (
+              <div className="border-t pt-8 theme-border">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted mb-4">
+                  Chip layout
+                </h3>
+                <RouletteTable
+                  layout={settings.layout}
+                  variant={settings.variant}
+                  betSize={settings.betSize}
+                  onChange={updateRouletteLayout}
+                />
+              </div>
+            )}
           </div>
 
           <div className="flex flex-col gap-8">
@@ -690,23 +1840,134 @@ export default function Home() {
                       Total payout outlook
                     </h3>
                     <p className="text-xs uppercase tracking-[0.3em] theme-text-muted">
-                      {runCount} {runLabel}
+                      {totalRuns.toLocaleString()} {runLabel}
                     </p>
                   </div>
                 </div>
-                <div className="text-right">
-                  <span className="text-xs uppercase tracking-[0.3em] theme-text-muted">
-                    Total final payout
-                  </span>
-                  <p
-                    className={`mt-1.5 text-4xl font-black tabular-nums ${totalFinal >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}
-                  >
-                    {totalFinal >= 0 ? '+' : '−'}${Math.abs(totalFinal).toFixed(2)}
-                  </p>
+                <div className="flex items-end gap-8">
+                  {hasBankroll && (
+                    <div className="text-right">
+                      <span className="text-xs uppercase tracking-[0.3em] theme-text-muted">
+                        Risk of ruin
+                      </span>
+                      <p
+                        className={`mt-1.5 text-4xl font-black tabular-nums ${riskOfRuin > 0 ? 'text-rose-400' : 'text-emerald-400'}`}
+                      >
+                        {riskOfRuin.toFixed(1)}%
+                      </p>
+                    </div>
+                  )}
+                  <div className="text-right">
+                    <span className="text-xs uppercase tracking-[0.3em] theme-text-muted">
+                      Total final payout
+                    </span>
+                    <p
+                      className={`mt-1.5 text-4xl font-black tabular-nums ${totalFinal >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}
+                    >
+                      {totalFinal >= 0 ? '+' : '−'}${Math.abs(totalFinal).toFixed(2)}
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
 
+            {hasSessionRules && (
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {exitBreakdown.map(({ reason, share, averageNet }) => (
+                  <div
+                    key={reason}
+                    className="flex flex-col gap-1 rounded-2xl border px-5 py-4 theme-border"
+                    style={{ background: 'var(--surface-bg)' }}
+                  >
+                    <span className="text-xs font-bold uppercase tracking-[0.2em] theme-text-muted">
+                      {sessionExitLabels[reason]}
+                    </span>
+                    <span className="text-2xl font-black tabular-nums theme-text">
+                      {share.toFixed(1)}%
+                    </span>
+                    <span
+                      className={`text-xs font-bold tabular-nums ${averageNet >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}
+                    >
+                      Avg exit {averageNet >= 0 ? '+' : '−'}${Math.abs(averageNet).toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {hasBonusRounds && rtpSplit && (
+              <div
+                className="flex flex-wrap items-center gap-x-6 gap-y-2 rounded-2xl border px-6 py-4 text-xs font-mono theme-border theme-text-muted"
+                style={{ background: 'var(--surface-bg)' }}
+              >
+                <span className="font-sans font-bold uppercase tracking-[0.2em]">Realised RTP</span>
+                <span>Base {(rtpSplit.base * 100).toFixed(2)}%</span>
+                <span className="text-amber-400">Bonus {(rtpSplit.bonus * 100).toFixed(2)}%</span>
+                <span>Total {((rtpSplit.base + rtpSplit.bonus) * 100).toFixed(2)}%</span>
+                <span>{rtpSplit.rounds.toLocaleString()} bonus rounds</span>
+                <span className="font-sans">Amber stretches of a path are bonus rounds.</span>
+              </div>
+            )}
+
+            <div
+              className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border px-6 py-4 text-xs theme-border"
+              style={{ background: 'var(--surface-bg)' }}
+            >
+              <div
+                className={`flex flex-wrap items-center gap-x-6 gap-y-2 font-mono theme-text-muted ${theoryPending ? 'opacity-50' : ''}`}
+              >
+                <span className="font-sans font-bold uppercase tracking-[0.2em]">Theory</span>
+                {theoryError ? (
+                  <span className="text-rose-400">Could not work it out: {theoryError}</span>
+                ) : theory ? (
+                  <>
+                    {theoryUnit === 'roll' && <span className="font-sans">Per roll</span>}
+                    <span>RTP {(theory.rtp * 100).toFixed(2)}%</span>
+                    <span>Edge {(theory.houseEdge * 100).toFixed(2)}%</span>
+                    <span>
+                      EV/{theoryUnit} {theory.expectedValue >= 0 ? '+' : '−'}$
+                      {Math.abs(theory.expectedValue * spinStake).toFixed(3)}
+                    </span>
+                    <span>
+                      σ/{theoryUnit} ${(theory.standardDeviation * spinStake).toFixed(2)}
+                    </span>
+                  </>
+                ) : (
+                  <span>Working it out…</span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <PresetPills
+                  values={chartModes}
+                  active={chartMode}
+                  onSelect={setChartMode}
+                  format={(mode) => (mode === 'paths' ? 'Paths' : 'Percentile fan')}
+                />
+                {chartMode === 'fan' && (
+                  <button
+                    onClick={() => setShowSamplePaths((prev) => !prev)}
+                    className="pressable rounded-full border px-3 py-1.5 text-xs font-bold uppercase tracking-wider theme-border"
+                    style={{
+                      background: showSamplePaths ? 'var(--accent-violet)' : 'var(--surface-bg)',
+                      color: showSamplePaths ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+                    }}
+                  >
+                    Sample paths
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowTheory((prev) => !prev)}
+                  className="pressable rounded-full border px-3 py-1.5 text-xs font-bold uppercase tracking-wider theme-border"
+                  style={{
+                    background: showTheory ? 'var(--accent-violet)' : 'var(--surface-bg)',
+                    color: showTheory ? 'rgba(255, 255, 255, 0.92)' : 'var(--text-muted)',
+                  }}
+                >
+                  {showTheory ? 'Hide' : 'Show'} ±σ overlay
+                </button>
+              </div>
+            </div>
+
             <div
               className="relative h-[440px] w-full overflow-hidden rounded-3xl border theme-border"
               style={{
@@ -725,13 +1986,170 @@ export default function Home() {
               </div>
             </div>
 
+            <div
+              className="flex flex-col gap-4 rounded-3xl border p-6 theme-border"
+              style={{ background: chartBackground, boxShadow: chartShadow }}
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted">
+                  Final result distribution
+                </h3>
+                {!exactComparable && (
+                  <span className="text-xs theme-text-muted">
+                    {settings.machine === 'craps'
+                      ? 'Craps bets carry over between rolls, so there is no exact overlay.'
+                      : 'Exact overlay needs flat bets with no bankroll or session rules.'}
+                  </span>
+                )}
+              </div>
+              <FinalHistogram
+                finalCounts={finalCounts}
+                distribution={exactDistribution}
+                axisColor={axisColor}
+                axisGrid={axisGrid}
+              />
+            </div>
+
+            <div
+              className="flex flex-col gap-4 rounded-3xl border p-6 theme-border"
+              style={{ background: chartBackground, boxShadow: chartShadow }}
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted">
+                  Compare setups
+                </h3>
+                <button
+                  onClick={() => setComparedSetups((prev) => [...prev, settings])}
+                  disabled={comparedSetups.length >= MAX_COMPARED_SETUPS}
+                  className="pressable rounded-full border px-3 py-1.5 text-xs font-bold uppercase tracking-wider theme-border disabled:opacity-40"
+                  style={{ background: 'var(--surface-bg)', color: 'var(--text-muted)' }}
+                >
+                  + Add current setup
+                </button>
+              </div>
+              {comparedSetups.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {comparisonLabels.map((label, index) => (
+                    <span
+                      key={index}
+                      className="flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs theme-border theme-text"
+                    >
+                      <span
+                        className="inline-flex h-2 w-2 rounded-full"
+                        style={{ background: comparisonColors[index] }}
+                        aria-hidden
+                      />
+                      {label}
+                      <button
+                        onClick={() =>
+                          setComparedSetups((prev) => prev.filter((_, entry) => entry !== index))
+                        }
+                        className="pressable font-bold theme-text-muted"
+                        aria-label={`Remove ${label}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {comparisonResult && !comparisonStale ? (
+                <ComparisonView
+                  result={comparisonResult}
+                  labels={comparisonLabels}
+                  colors={comparisonColors}
+                  axisColor={axisColor}
+                  axisGrid={axisGrid}
+                />
+              ) : (
+                <p className={`text-xs ${comparisonError ? 'text-rose-400' : 'theme-text-muted'}`}>
+                  {comparisonError
+                    ? `Comparison failed: ${comparisonError}`
+                    : comparisonRunning
+                      ? 'Playing the setups…'
+                      : `Add two to ${MAX_COMPARED_SETUPS} setups to play them on the same ${runCount.toLocaleString()} seeds.`}
+                </p>
+              )}
+            </div>
+
+            {batchJackpot && settings.machine === 'slot' && settings.jackpot && slotTop && theory && (
+              <div
+                className="flex flex-col gap-4 rounded-3xl border p-6 theme-border"
+                style={{ background: chartBackground, boxShadow: chartShadow }}
+              >
+                <h3 className="text-sm font-semibold uppercase tracking-[0.2em] theme-text-muted">
+                  Progressive pot across all runs
+                </h3>
+                <JackpotChart
+                  history={batchJackpot}
+                  jackpot={settings.jackpot}
+                  top={slotTop}
+                  rtpAtSeed={theory.rtp}
+                  betSize={settings.betSize}
+                  axisColor={axisColor}
+                  axisGrid={axisGrid}
+                />
+              </div>
+            )}
+
+            {pocketStats && (
+              <div
+                className="flex flex-col gap-5 rounded-2xl border px-6 py-5 theme-border"
+                style={{ background: 'var(--surface-bg)' }}
+              >
+                <div className="flex flex-col gap-2">
+                  <span className="text-xs font-bold uppercase tracking-[0.2em] theme-text-muted">
+                    Run 1 · last {pocketStats.history.length} spins
+                  </span>
+                  <div className="flex flex-wrap gap-1.5">
+                    {pocketStats.history.map((pocket, index) => (
+                      <span
+                        key={index}
+                        className="inline-flex h-7 w-7 items-center justify-center rounded-full text-[11px] font-bold tabular-nums text-white"
+                        style={{ background: pocketSwatches[pocketColor(pocket)] }}
+                      >
+                        {pocketLabel(pocket)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {([
+                    ['Hot numbers', pocketStats.hot],
+                    ['Cold numbers', pocketStats.cold],
+                  ] as const).map(([title, pockets]) => (
+                    <div key={title} className="flex flex-col gap-2">
+                      <span className="text-xs font-bold uppercase tracking-[0.2em] theme-text-muted">
+                        {title}
+                      </span>
+                      <div className="flex flex-wrap gap-3">
+                        {pockets.map((pocket) => (
+                          <span key={pocket.id} className="flex items-center gap-1.5 text-xs theme-text-muted">
+                            <span
+                              className="inline-flex h-7 w-7 items-center justify-center rounded-full text-[11px] font-bold tabular-nums text-white"
+                              style={{ background: pocketSwatches[pocket.color] }}
+                            >
+                              {pocket.label}
+                            </span>
+                            <span className="tabular-nums">×{pocket.hits}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-3 max-h-96 overflow-y-auto pr-2 run-scroll">
               {displayRuns.map((run) => {
                 const { summary } = run;
                 const winRate =
-                  (summary.totalWinSpins / settings.spins) * 100 || 0;
+                  (summary.totalWinSpins / summary.spinsPlayed) * 100 || 0;
                 const lossRate =
-                  (summary.totalLosingSpins / settings.spins) * 100 || 0;
+                  (summary.totalLosingSpins / summary.spinsPlayed) * 100 || 0;
+                const underwaterRate =
+                  (summary.spinsUnderwater / summary.spinsPlayed) * 100 || 0;
                 const finalPositive = summary.finalNet >= 0;
 
                 return (
@@ -757,7 +2175,7 @@ export default function Home() {
                           {run.name}
                         </p>
                         <p className="text-xs font-mono theme-text-muted">
-                          σ {summary.volatility.toFixed(2)}
+                          σ/spin ${summary.spinStdDev.toFixed(2)}
                         </p>
                       </div>
                     </div>
@@ -769,8 +2187,31 @@ export default function Home() {
                       </span>
                       <span className="theme-text-muted">Wins {winRate.toFixed(1)}%</span>
                       <span className="theme-text-muted">Loss {lossRate.toFixed(1)}%</span>
-                      <span className="theme-text-muted">Peak ${summary.peak.toFixed(2)}</span>
-                      <span className="theme-text-muted">DD −${Math.abs(summary.trough).toFixed(2)}</span>
+                      <span className="theme-text-muted">
+                        Peak ${summary.peak.toFixed(2)} @ {summary.peakSpin}
+                      </span>
+                      <span className="theme-text-muted">
+                        Max DD −${summary.maxDrawdown.toFixed(2)} ({summary.maxDrawdownSpins} spins)
+                      </span>
+                      <span className="theme-text-muted">
+                        Streaks W{summary.longestWinStreak} · L{summary.longestLossStreak}
+                      </span>
+                      <span className="theme-text-muted">Underwater {underwaterRate.toFixed(1)}%</span>
+                      {summary.bonusRounds > 0 && (
+                        <span className="text-amber-400">
+                          Bonus ×{summary.bonusRounds} (+${summary.bonusPaid.toFixed(2)})
+                        </span>
+                      )}
+                      {summary.betsResolved !== summary.spinsPlayed && (
+                        <span className="theme-text-muted">{summary.betsResolved} bets settled</span>
+                      )}
+                      {summary.exitReason !== 'completed' && (
+                        <span
+                          className={`font-bold ${summary.exitReason === 'win-target' ? 'text-emerald-400' : 'text-rose-400'}`}
+                        >
+                          {sessionExitLabels[summary.exitReason]} @ {summary.spinsPlayed}
+                        </span>
+                      )}
                     </div>
                   </div>
                 );
@@ -793,9 +2234,23 @@ export default function Home() {
                       Total {tailSummary.totalFinal >= 0 ? '+' : '−'}${Math.abs(tailSummary.totalFinal).toFixed(2)}
                     </span>
                   </div>
-                  <div className="relative flex items-center gap-5 text-xs theme-text-muted">
+                  <div className="relative flex flex-wrap items-center gap-x-5 gap-y-2 text-xs theme-text-muted">
                     <span>Wins {tailSummary.winRate.toFixed(1)}%</span>
                     <span>Loss {tailSummary.lossRate.toFixed(1)}%</span>
+                    <span>σ/spin ${tailSummary.averageSpinStdDev.toFixed(2)} avg</span>
+                    <span>
+                      Max DD −${tailSummary.averageDrawdown.toFixed(2)} avg · −$
+                      {tailSummary.worstDrawdown.toFixed(2)} worst
+                    </span>
+                    <span>
+                      DD length {Math.round(tailSummary.averageDrawdownSpins)} spins avg ·{' '}
+                      {tailSummary.longestDrawdownSpins} longest
+                    </span>
+                    <span>Peak @ spin {Math.round(tailSummary.averagePeakSpin)} avg</span>
+                    <span>
+                      Longest streaks W{tailSummary.longestWinStreak} · L{tailSummary.longestLossStreak}
+                    </span>
+                    <span>Underwater {tailSummary.underwaterRate.toFixed(1)}%</span>
                   </div>
                 </div>
               )}
@@ -0,0 +1,437 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { baccaratMainBets, defaultBaccaratBets } from "../app/lib/baccarat";
+import type { BaccaratMainBet } from "../app/lib/baccarat";
+import { defaultBlackjackRules } from "../app/lib/blackjack";
+import { crapsLineBets, defaultCrapsBets } from "../app/lib/craps";
+import type { CrapsLineBet } from "../app/lib/craps";
+import { encodeExperiment, parseExperiment } from "../app/lib/experiment-url";
+import type { Experiment } from "../app/lib/experiment-url";
+import { experimentFile, pathsCsv, readExperimentFile, runSummariesCsv } from "../app/lib/export";
+import { presetLayout, rouletteBets } from "../app/lib/roulette";
+import type { RouletteBet } from "../app/lib/roulette";
+import { BASELINE_SEED, createRunBatch } from "../app/lib/run-batch";
+import type { BatchResult } from "../app/lib/run-batch";
+import {
+  defaultSettings,
+  sessionExitLabels,
+  slotProfileLabels,
+  theoreticalStats,
+} from "../app/lib/simulation";
+import type {
+  BaseSimulationSettings,
+  MachineType,
+  SessionExit,
+  SimulationSettings,
+} from "../app/lib/simulation";
+import { bettingStrategies } from "../app/lib/strategies";
+import { defaultVideoPokerPaytable, videoPokerPaytables } from "../app/lib/video-poker";
+
+const DEFAULT_RUNS = 1000;
+const machines: MachineType[] = ["slot", "roulette", "blackjack", "craps", "baccarat", "video-poker"];
+
+const usage = `Usage: npm run simulate -- [options]
+
+Plays a batch of runs with the same engine and seeds as the web page, prints
+the aggregate statistics, and optionally writes the runs out.
+
+Setup
+  --machine <name>      slot, roulette, blackjack, craps, baccarat or video-poker (default slot)
+  --profile <name>      slot profile: ${Object.keys(slotProfileLabels).join(", ")}
+  --bonus <mode>        slot bonus feature: off, triggered or bought
+  --bet <name>          roulette bet, craps line bet or baccarat main bet
+  --variant <name>      roulette or baccarat variant
+  --paytable <name>     video poker paytable: ${Object.keys(videoPokerPaytables).join(", ")}
+  --spins <n>           spins per run (default ${defaultSettings.spins})
+  --bet-size <dollars>  base bet (default ${defaultSettings.betSize})
+  --runs <n>            runs in the batch (default ${DEFAULT_RUNS})
+  --seed <n>            seed of the first run (default ${BASELINE_SEED})
+  --strategy <name>     betting strategy: ${Object.keys(bettingStrategies).join(", ")}
+  --table-max <dollars> largest bet the table takes
+  --bankroll <dollars>  stop a run when it goes broke
+  --win-target, --loss-limit, --max-spins, --max-minutes <n>
+                        session rules
+
+  --link <url>          start from a shared link; the options above override it
+  --experiment <file>   start from an exported experiment file
+
+Output
+  --csv <file>          every run's summary, with the seed that replays it
+  --paths-csv <file>    the drawn runs and the mean line, column by column
+  --json <file>         the experiment and its results, readable by the page's import
+  --help                show this message`;
+
+/** Options that set a shared-link parameter, and the parameter each one sets. */
+const queryKeys: Record<string, string> = {
+  spins: "spins",
+  "bet-size": "bet",
+  runs: "runs",
+  seed: "seed",
+  strategy: "strategy",
+  "table-max": "tableMax",
+  bankroll: "bankroll",
+  "win-target": "winTarget",
+  "loss-limit": "lossLimit",
+  "max-spins": "maxSpins",
+  "max-minutes": "maxMinutes",
+  profile: "profile",
+  bonus: "bonus",
+  variant: "variant",
+  paytable: "paytable",
+};
+
+/** Options that only some machines read, and those machines; `--bet` checks its own. */
+const machineOptions: Record<string, MachineType[]> = {
+  profile: ["slot"],
+  bonus: ["slot"],
+  variant: ["roulette", "baccarat"],
+  paytable: ["video-poker"],
+};
+
+const stringOption = { type: "string" } as const;
+
+const readOptions = () =>
+  parseArgs({
+    options: {
+      ...Object.fromEntries(Object.keys(queryKeys).map((key) => [key, stringOption])),
+      machine: stringOption,
+      bet: stringOption,
+      link: stringOption,
+      experiment: stringOption,
+      csv: stringOption,
+      "paths-csv": stringOption,
+      json: stringOption,
+      help: { type: "boolean" },
+    },
+    strict: true,
+  }).values as Record<string, string | undefined> & { help?: boolean };
+
+/** The setup the page switches to when a machine is picked, keeping the shared fields. */
+const switchMachine = (settings: SimulationSettings, machine: MachineType): SimulationSettings => {
+  const base: BaseSimulationSettings = {
+    spins: settings.spins,
+    betSize: settings.betSize,
+    strategy: settings.strategy,
+    tableMax: settings.tableMax,
+    startingBankroll: settings.startingBankroll,
+    sessionRules: settings.sessionRules,
+  };
+
+  switch (machine) {
+    case "slot":
+      return { ...base, machine, profile: "balanced", bonus: "off", jackpot: null };
+    case "roulette":
+      return { ...base, machine, layout: presetLayout("single-number"), variant: "european" };
+    case "blackjack":
+      return { ...base, machine, rules: defaultBlackjackRules };
+    case "craps":
+      return { ...base, machine, bets: defaultCrapsBets };
+    case "baccarat":
+      return { ...base, machine, bets: defaultBaccaratBets, variant: "commission" };
+    case "video-poker":
+      return { ...base, machine, paytable: defaultVideoPokerPaytable };
+  }
+};
+
+const startingExperiment = (link?: string, file?: string): Experiment | string[] => {
+  if (link !== undefined && file !== undefined) {
+    return ["Pass either --link or --experiment, not both."];
+  }
+  if (link !== undefined) {
+    const query = link.includes("?") ? link.slice(link.indexOf("?")) : link;
+    const { experiment, problems } = parseExperiment(query);
+    return experiment ?? (problems.length > 0 ? problems : ["The link holds no experiment."]);
+  }
+  if (file !== undefined) {
+    let text: string;
+    try {
+      text = readFileSync(file, "utf8");
+    } catch {
+      return [`Cannot read "${file}".`];
+    }
+    const { experiment, problems } = readExperimentFile(text);
+    return experiment ?? problems;
+  }
+  return { settings: defaultSettings, runCount: DEFAULT_RUNS, baseSeed: BASELINE_SEED };
+};
+
+/** Puts `--bet` into the machine's own bet parameter. */
+const applyBet = (params: URLSearchParams, settings: SimulationSettings, bet: string) => {
+  switch (settings.machine) {
+    case "roulette":
+      if (!Object.prototype.hasOwnProperty.call(rouletteBets, bet)) {
+        return `Unknown roulette bet "${bet}"; pick one of ${Object.keys(rouletteBets).join(", ")}.`;
+      }
+      params.set("layout", JSON.stringify(presetLayout(bet as RouletteBet)));
+      return null;
+    case "craps":
+      if (!Object.prototype.hasOwnProperty.call(crapsLineBets, bet)) {
+        return `Unknown craps bet "${bet}"; pick one of ${Object.keys(crapsLineBets).join(", ")}.`;
+      }
+      params.set("bets", JSON.stringify({ ...settings.bets, line: [bet as CrapsLineBet] }));
+      return null;
+    case "baccarat":
+      if (!Object.prototype.hasOwnProperty.call(baccaratMainBets, bet)) {
+        return `Unknown baccarat bet "${bet}"; pick one of ${Object.keys(baccaratMainBets).join(", ")}.`;
+      }
+      params.set("bets", JSON.stringify({ ...settings.bets, main: bet as BaccaratMainBet }));
+      return null;
+    default:
+      return "--bet applies to roulette, craps and baccarat.";
+  }
+};
+
+/** Names the option behind a problem reported against a shared-link parameter. */
+const optionProblem = (problem: string) =>
+  Object.entries(queryKeys).reduce(
+    (text, [option, key]) => text.replace(`"${key}"`, `--${option}`),
+    problem,
+  );
+
+const readExperiment = (values: ReturnType<typeof readOptions>): Experiment | string[] => {
+  const start = startingExperiment(values.link, values.experiment);
+  if (Array.isArray(start)) {
+    return start;
+  }
+
+  const machine = values.machine as MachineType | undefined;
+  let settings = start.settings;
+  if (machine !== undefined && machine !== settings.machine) {
+    if (!machines.includes(machine)) {
+      return [`Unknown machine "${machine}".`];
+    }
+    settings = switchMachine(settings, machine);
+  }
+
+  const misplaced = Object.entries(machineOptions).filter(
+    ([option, readers]) => values[option] !== undefined && !readers.includes(settings.machine),
+  );
+  if (misplaced.length > 0) {
+    return misplaced.map(
+      ([option, readers]) =>
+        `--${option} applies to ${readers.join(" and ")}, not ${settings.machine}.`,
+    );
+  }
+
+  const params = encodeExperiment({ ...start, settings });
+  for (const [option, key] of Object.entries(queryKeys)) {
+    const value = values[option];
+    if (value !== undefined) {
+      params.set(key, value);
+    }
+  }
+  if (values.bet !== undefined) {
+    const problem = applyBet(params, settings, values.bet);
+    if (problem) {
+      return [problem];
+    }
+  }
+
+  const { experiment, problems } = parseExperiment(`?${params}`);
+  return experiment ?? problems.map(optionProblem);
+};
+
+const formatMoney = (value: number) =>
+  `${value >= 0 ? "+" : "−"}$${Math.abs(value).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/** Linear interpolation between the two nearest of `sorted`. */
+const quantile = (sorted: number[], probability: number) => {
+  const position = (sorted.length - 1) * probability;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const describeSetup = ({ settings, runCount, baseSeed }: Experiment) => {
+  const detail = (() => {
+    switch (settings.machine) {
+      case "slot":
+        return [
+          typeof settings.profile === "string" ? settings.profile : settings.profile.name,
+          settings.bonus !== "off" ? `bonus ${settings.bonus}` : null,
+          settings.jackpot ? `jackpot ${formatPercent(settings.jackpot.contribution)}` : null,
+        ];
+      case "roulette":
+        return [settings.variant, settings.layout.map((chip) => chip.bet).join(" + ")];
+      case "blackjack":
+        return [`${settings.rules.decks} decks`, `pays ${settings.rules.blackjackPayout}`];
+      case "craps":
+        return [[...settings.bets.line, ...settings.bets.place.map(String)].join(" + ")];
+      case "baccarat":
+        return [settings.variant, [settings.bets.main, ...settings.bets.sides].join(" + ")];
+      case "video-poker":
+        return [settings.paytable];
+    }
+  })();
+
+  return [
+    settings.machine,
+    ...detail.filter((part) => part !== null),
+    `${bettingStrategies[settings.strategy].label} $${settings.betSize}`,
+    `${settings.spins.toLocaleString("en-US")} spins × ${runCount.toLocaleString("en-US")} runs`,
+    `seed ${baseSeed}`,
+  ].join(" · ");
+};
+
+const report = (experiment: Experiment, batch: BatchResult) => {
+  const summaries = batch.runSummaries!;
+  const runs = summaries.length;
+  const finals = summaries.map((summary) => summary.finalNet).sort((a, b) => a - b);
+  const staked = summaries.reduce((total, summary) => total + summary.totalStaked, 0);
+  const bonusPaid = summaries.reduce((total, summary) => total + summary.bonusPaid, 0);
+  const bonusRounds = summaries.reduce((total, summary) => total + summary.bonusRounds, 0);
+  const drawdowns = summaries.map((summary) => summary.maxDrawdown);
+  const profitable = summaries.filter((summary) => summary.finalNet > 1e-9).length;
+  const theory = theoreticalStats(experiment.settings);
+  // Craps theory is per roll and unit on the table, not per bet settled.
+  const theoryUnit = experiment.settings.machine === "craps" ? " per roll" : "";
+
+  const rows: [string, string][] = [
+    ["Net total", formatMoney(batch.totalFinal)],
+    ["Mean per run", formatMoney(batch.totalFinal / runs)],
+    [
+      "Median (5th–95th)",
+      `${formatMoney(quantile(finals, 0.5))} (${formatMoney(quantile(finals, 0.05))} … ${formatMoney(
+        quantile(finals, 0.95),
+      )})`,
+    ],
+    ["Finished ahead", formatPercent(profitable / runs)],
+    ["Risk of ruin", formatPercent(batch.bustCount / runs)],
+    [
+      "Max drawdown",
+      `−$${(drawdowns.reduce((total, value) => total + value, 0) / runs).toFixed(2)} avg · −$${drawdowns
+        .reduce((worst, value) => Math.max(worst, value), 0)
+        .toFixed(2)} worst`,
+    ],
+    [
+      "Drawdown length",
+      `${Math.round(
+        summaries.reduce((total, summary) => total + summary.maxDrawdownSpins, 0) / runs,
+      ).toLocaleString("en-US")} spins avg · ${summaries
+        .reduce((longest, summary) => Math.max(longest, summary.maxDrawdownSpins), 0)
+        .toLocaleString("en-US")} longest · peak @ spin ${Math.round(
+        summaries.reduce((total, summary) => total + summary.peakSpin, 0) / runs,
+      ).toLocaleString("en-US")} avg`,
+    ],
+    [
+      "RTP",
+      staked > 0
+        ? `${formatPercent((staked + batch.totalFinal) / staked)} realised · ${formatPercent(
+            theory.rtp,
+          )} theoretical${theoryUnit} (edge ${formatPercent(theory.houseEdge)})`
+        : "nothing staked",
+    ],
+  ];
+  if (bonusRounds > 0) {
+    rows.push([
+      "Bonus rounds",
+      `${bonusRounds.toLocaleString("en-US")} paying ${formatMoney(bonusPaid)} (${formatPercent(
+        bonusPaid / staked,
+      )} of stakes)`,
+    ]);
+  }
+  if (batch.jackpot) {
+    const { hits, level } = batch.jackpot;
+    rows.push([
+      "Jackpot",
+      `${hits.length} hit${hits.length === 1 ? "" : "s"} · pot ended at $${level.toFixed(2)}`,
+    ]);
+  }
+
+  const exits = (Object.keys(sessionExitLabels) as SessionExit[]).filter((reason) =>
+    batch.exitTotals.has(reason),
+  );
+  const width =
+    Math.max(
+      ...rows.map(([label]) => label.length),
+      ...exits.map((reason) => sessionExitLabels[reason].length + 2),
+    ) + 2;
+  const lines = [
+    describeSetup(experiment),
+    "",
+    ...rows.map(([label, value]) => `${label.padEnd(width)}${value}`),
+    "",
+    "Exits",
+    ...exits.map((reason) => {
+      const { count, totalNet } = batch.exitTotals.get(reason)!;
+      return `  ${sessionExitLabels[reason].padEnd(width - 2)}${formatPercent(
+        count / runs,
+      )} · avg ${formatMoney(totalNet / count)}`;
+    }),
+  ];
+  console.log(lines.join("\n"));
+};
+
+const writeOutputs = (
+  values: ReturnType<typeof readOptions>,
+  experiment: Experiment,
+  batch: BatchResult,
+) => {
+  const paths = batch.displayLines.map(({ points }) => points);
+  const outputs: [string | undefined, () => string][] = [
+    [values.csv, () => runSummariesCsv(batch.runSummaries!, experiment.baseSeed)],
+    [values["paths-csv"], () => pathsCsv(batch.steps, batch.displayLines, batch.meanLine)],
+    [
+      values.json,
+      () =>
+        JSON.stringify(
+          experimentFile(experiment, {
+            steps: batch.steps,
+            meanLine: batch.meanLine,
+            paths,
+            runSummaries: batch.runSummaries,
+          }),
+        ),
+    ],
+  ];
+
+  for (const [file, content] of outputs) {
+    if (file === undefined) {
+      continue;
+    }
+    try {
+      writeFileSync(file, content());
+    } catch (error) {
+      console.error(`Cannot write "${file}": ${(error as Error).message}`);
+      return false;
+    }
+    console.error(`Wrote ${file}`);
+  }
+  return true;
+};
+
+const main = () => {
+  let values: ReturnType<typeof readOptions>;
+  try {
+    values = readOptions();
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${usage}`);
+    return 1;
+  }
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  const experiment = readExperiment(values);
+  if (Array.isArray(experiment)) {
+    console.error(experiment.join("\n"));
+    return 1;
+  }
+
+  const batch = createRunBatch({ ...experiment, withBands: false, withSummaries: true });
+  while (!batch.isDone()) {
+    batch.runNext();
+  }
+  const result = batch.snapshot();
+
+  report(experiment, result);
+  return writeOutputs(values, experiment, result) ? 0 : 1;
+};
+
+process.exitCode = main();